@@ -0,0 +1,1773 @@
+import {
+  at,
+  buckets,
+  compare,
+  compareAux,
+  compareWithAux,
+  during,
+  enter,
+  exit,
+  gap,
+  heap,
+  layer,
+  mark,
+  merging,
+  phase,
+  pivot,
+  read,
+  release,
+  stash,
+  swap,
+  unstash,
+  write,
+  type SortAlgorithm,
+  type SortGenerator,
+  type SortOp,
+} from './trace';
+
+/**
+ * ===================
+ * Sorting Algorithms
+ * ===================
+ */
+
+/** Bubble Sort */
+export function* bubbleSort(a: number[]): SortGenerator {
+  const n = a.length;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = 0; j < n - i - 1; j++) {
+      yield at(4, compare(j, j + 1), { j }, { i });
+      if (a[j] > a[j + 1]) {
+        yield at(4, swap(a, j, j + 1));
+      }
+    }
+  }
+}
+
+/** Selection Sort */
+export function* selectionSort(a: number[]): SortGenerator {
+  const n = a.length;
+  for (let i = 0; i < n - 1; i++) {
+    let minIdx = i;
+    yield at(2, mark(minIdx), { i, minIdx, j: null });
+
+    for (let j = i + 1; j < n; j++) {
+      yield at(4, compare(j, minIdx), { j });
+      if (a[j] < a[minIdx]) {
+        minIdx = j;
+        yield at(4, mark(minIdx), { minIdx });
+      }
+    }
+    if (minIdx !== i) {
+      yield at(5, swap(a, i, minIdx));
+    }
+    yield at(5, mark(null));
+  }
+}
+
+/** Insertion Sort */
+export function* insertionSort(a: number[]): SortGenerator {
+  yield* insertionSortRange(a, 0, a.length - 1);
+}
+
+/** Insertion sort A[low..high], assuming A[low..start-1] is already sorted */
+function* insertionSortRange(
+  a: number[],
+  low: number,
+  high: number,
+  start = low + 1,
+): SortGenerator {
+  for (let i = start; i <= high; i++) {
+    const key = a[i];
+    yield at(2, read(i), { i, j: null });
+
+    // The key conceptually sits in the hole at j + 1 while we shift
+    let j = i - 1;
+    while (j >= low) {
+      yield at(4, compare(j, j + 1), { j });
+      if (a[j] <= key) break;
+      yield at(5, write(a, j + 1, a[j]));
+      j--;
+    }
+    yield at(7, write(a, j + 1, key));
+  }
+}
+
+/** Ways Quick Sort can choose its pivot */
+export const pivotChoices = [
+  'Last',
+  'First',
+  'Middle',
+  'Random',
+  'Median of Three',
+  'Ninther',
+] as const;
+export type PivotChoice = (typeof pivotChoices)[number];
+
+/** Ways Quick Sort can partition around its pivot */
+export const partitionSchemes = ['Lomuto', 'Hoare', 'Three-Way'] as const;
+export type PartitionScheme = (typeof partitionSchemes)[number];
+
+export interface QuickSortOptions {
+  pivotChoice: PivotChoice;
+  partition: PartitionScheme;
+  /** Source of random pivots, seeded when a run has to be repeatable */
+  random: () => number;
+}
+
+/** Quick Sort, by default Lomuto partitioning around the last element */
+export function* quickSort(
+  a: number[],
+  options: Partial<QuickSortOptions> = {},
+): SortGenerator {
+  const {
+    pivotChoice = 'Last',
+    partition = 'Lomuto',
+    random = Math.random,
+  } = options;
+  yield* quickSortHelper(a, 0, a.length - 1, {
+    pivotChoice,
+    partition,
+    random,
+  });
+}
+
+/**
+ * Sorts A[low..high] as if recursing into each part in turn, left then right,
+ * but keeps the ranges still to sort on a stack of its own: sorted input
+ * recurses n deep, far deeper than nested generators can go
+ */
+function* quickSortHelper(
+  a: number[],
+  low: number,
+  high: number,
+  options: QuickSortOptions,
+): SortGenerator {
+  const { pivotChoice, partition, random } = options;
+  // A range is popped twice: once to partition it, then, after both of its
+  // parts are sorted, to return from it
+  const pending = [{ low, high, returning: false }];
+  while (pending.length > 0) {
+    const range = pending.pop()!;
+    if (range.returning) {
+      yield exit(range.low, range.high);
+      continue;
+    }
+    const { low, high } = range;
+    if (low >= high) continue;
+
+    yield at(2, enter(low, high), { low, high, i: null, j: null });
+    const chosen = yield* during(
+      3,
+      choosePivot(a, low, high, pivotChoice, random),
+    );
+
+    let left: number;
+    let right: number;
+    if (partition === 'Hoare') {
+      const split = yield* hoarePartition(a, low, high, chosen);
+      [left, right] = [split, split + 1];
+    } else if (partition === 'Three-Way') {
+      const [lt, gt] = yield* threeWayPartition(a, low, high, chosen);
+      [left, right] = [lt - 1, gt + 1];
+    } else {
+      if (chosen !== high) yield at(4, swap(a, chosen, high));
+      const pi = yield* quickPartition(a, low, high);
+      [left, right] = [pi - 1, pi + 1];
+    }
+    pending.push(
+      { low, high, returning: true },
+      { low: right, high, returning: false },
+      { low, high: left, returning: false },
+    );
+  }
+}
+
+/** Index of the pivot for A[low..high] under the given choice */
+function* choosePivot(
+  a: number[],
+  low: number,
+  high: number,
+  pivotChoice: PivotChoice,
+  random: () => number,
+): SortGenerator<number> {
+  const mid = Math.floor((low + high) / 2);
+  switch (pivotChoice) {
+    case 'First':
+      return low;
+    case 'Middle':
+      return mid;
+    case 'Random':
+      return low + Math.floor(random() * (high - low + 1));
+    case 'Median of Three':
+      return yield* medianIndex(a, low, mid, high);
+    case 'Ninther': {
+      // Tukey's median of medians, over three spread out groups of three
+      const step = Math.floor((high - low + 1) / 8);
+      if (step === 0) return yield* medianIndex(a, low, mid, high);
+      const first = yield* medianIndex(a, low, low + step, low + 2 * step);
+      const middle = yield* medianIndex(a, mid - step, mid, mid + step);
+      const last = yield* medianIndex(a, high - 2 * step, high - step, high);
+      return yield* medianIndex(a, first, middle, last);
+    }
+    default:
+      return high;
+  }
+}
+
+/** Index of the median of A[i], A[j] and A[k], found without moving them */
+function* medianIndex(
+  a: number[],
+  i: number,
+  j: number,
+  k: number,
+): SortGenerator<number> {
+  yield compare(i, j);
+  if (a[i] < a[j]) {
+    yield compare(j, k);
+    if (a[j] < a[k]) return j;
+    yield compare(i, k);
+    return a[i] < a[k] ? k : i;
+  }
+  yield compare(i, k);
+  if (a[i] < a[k]) return i;
+  yield compare(j, k);
+  return a[j] < a[k] ? k : j;
+}
+
+function* quickPartition(
+  a: number[],
+  low: number,
+  high: number,
+): SortGenerator<number> {
+  const pivotValue = a[high];
+  yield at(10, pivot(high));
+
+  let i = low - 1;
+  for (let j = low; j <= high - 1; j++) {
+    yield at(13, compare(j, high), { i, j });
+    if (a[j] < pivotValue) {
+      i++;
+      yield at(15, swap(a, i, j), { i });
+    }
+  }
+
+  yield at(16, swap(a, i + 1, high));
+  yield at(17, pivot(null));
+  return i + 1;
+}
+
+/**
+ * Hoare partition around the pivot at `chosen`. Returns j such that every
+ * element of A[low..j] is <= every element of A[j+1..high]; the pivot
+ * itself may end up on either side.
+ */
+function* hoarePartition(
+  a: number[],
+  low: number,
+  high: number,
+  chosen: number,
+): SortGenerator<number> {
+  // With the pivot first, neither scan can run off the range
+  if (chosen !== low) yield at(4, swap(a, chosen, low));
+  const pivotValue = a[low];
+  let pivotAt = low;
+  yield at(10, pivot(pivotAt));
+
+  let i = low - 1;
+  let j = high + 1;
+  while (true) {
+    do {
+      i++;
+      yield at(13, compare(i, pivotAt), { i });
+    } while (a[i] < pivotValue);
+    do {
+      j--;
+      yield at(14, compare(j, pivotAt), { j });
+    } while (a[j] > pivotValue);
+
+    if (i >= j) {
+      yield at(15, pivot(null));
+      return j;
+    }
+    yield at(16, swap(a, i, j));
+    // Follow the pivot so its highlight stays on the right block
+    if (pivotAt === i) {
+      pivotAt = j;
+      yield at(16, pivot(pivotAt));
+    } else if (pivotAt === j) {
+      pivotAt = i;
+      yield at(16, pivot(pivotAt));
+    }
+  }
+}
+
+/**
+ * Three-way (Dutch National Flag) partition around the pivot at `chosen`.
+ * Returns [lt, gt] with A[low..lt-1] < pivot, A[lt..gt] = pivot and
+ * A[gt+1..high] > pivot, so runs of equal keys are never recursed into.
+ */
+function* threeWayPartition(
+  a: number[],
+  low: number,
+  high: number,
+  chosen: number,
+): SortGenerator<[number, number]> {
+  if (chosen !== low) yield at(4, swap(a, chosen, low));
+  const pivotValue = a[low];
+
+  // A[lt] always holds a copy of the pivot, so compare against it
+  let lt = low;
+  let gt = high;
+  let i = low + 1;
+  yield at(10, pivot(lt));
+  while (i <= gt) {
+    yield at(13, compare(i, lt), { lt, i, gt });
+    if (a[i] < pivotValue) {
+      yield at(13, swap(a, lt, i));
+      lt++;
+      i++;
+      yield at(13, pivot(lt));
+      continue;
+    }
+    yield at(14, compare(lt, i));
+    if (pivotValue < a[i]) {
+      yield at(14, swap(a, i, gt));
+      gt--;
+    } else {
+      i++;
+    }
+  }
+
+  yield at(16, pivot(null));
+  return [lt, gt];
+}
+
+/** Ways Merge Sort can be run */
+export const mergeVariants = [
+  'Top-Down',
+  'Bottom-Up',
+  'Natural',
+  'In-Place',
+] as const;
+export type MergeVariant = (typeof mergeVariants)[number];
+
+export interface MergeSortOptions {
+  variant: MergeVariant;
+}
+
+/** Merge Sort, by default top-down and recursive */
+export function* mergeSort(
+  a: number[],
+  options: Partial<MergeSortOptions> = {},
+): SortGenerator {
+  const { variant = 'Top-Down' } = options;
+  if (variant === 'Bottom-Up') {
+    yield* bottomUpMergeSort(a);
+  } else if (variant === 'Natural') {
+    yield* naturalMergeSort(a);
+  } else {
+    yield* mergeSortHelper(a, 0, a.length - 1, variant === 'In-Place');
+  }
+}
+
+function* mergeSortHelper(
+  a: number[],
+  left: number,
+  right: number,
+  inPlace = false,
+): SortGenerator {
+  if (left < right) {
+    yield at(2, enter(left, right), { l: left, r: right });
+    const mid = Math.floor((left + right) / 2);
+    yield* mergeSortHelper(a, left, mid, inPlace);
+    yield* mergeSortHelper(a, mid + 1, right, inPlace);
+    // An in-place merge is spelled out, so it names its own lines
+    const merged = mergeRuns(a, left, mid, right, inPlace);
+    yield* inPlace ? merged : during(6, merged);
+    yield exit(left, right);
+  }
+}
+
+/** Merge runs of width 1, 2, 4, ... from left to right, without recursion */
+function* bottomUpMergeSort(a: number[]): SortGenerator {
+  const n = a.length;
+  for (let width = 1; width < n; width *= 2) {
+    yield at(3, phase(`Merging runs of ${width}`), {}, { width });
+    for (let left = 0; left + width < n; left += 2 * width) {
+      const right = Math.min(left + 2 * width, n) - 1;
+      yield* during(7, mergeRuns(a, left, left + width - 1, right));
+    }
+  }
+  yield phase(null);
+}
+
+/**
+ * Split the input into the ascending runs it already has, then merge
+ * neighbouring runs pairwise until one is left. Sorted input is one pass.
+ */
+function* naturalMergeSort(a: number[]): SortGenerator {
+  const n = a.length;
+  yield at(2, phase('Finding runs'));
+  let starts = [0];
+  for (let i = 1; i < n; i++) {
+    yield at(2, compare(i - 1, i));
+    if (a[i] < a[i - 1]) starts.push(i);
+  }
+
+  while (starts.length > 1) {
+    yield at(
+      3,
+      phase(`Merging ${starts.length} runs`),
+      {},
+      {
+        runs: starts.length,
+      },
+    );
+    const ends = [...starts.slice(1), n];
+    for (let r = 0; r + 1 < starts.length; r += 2) {
+      yield* during(5, mergeRuns(a, starts[r], ends[r] - 1, ends[r + 1] - 1));
+    }
+    starts = starts.filter((_, r) => r % 2 === 0);
+  }
+  yield phase(null);
+}
+
+/** Merge A[left..mid] with A[mid+1..right], showing which runs are merged */
+function* mergeRuns(
+  a: number[],
+  left: number,
+  mid: number,
+  right: number,
+  inPlace = false,
+): SortGenerator {
+  yield merging([left, mid, right]);
+  if (inPlace) {
+    yield* inPlaceMerge(a, left, mid, right);
+  } else {
+    yield* merge(a, left, mid, right);
+  }
+  yield merging(null);
+}
+
+/**
+ * Merge through buffers L and R in auxiliary memory. Each is drawn behind
+ * the run it was copied from: L[i] in slot left + i of the first row, R[j]
+ * in slot mid + 1 + j of the second.
+ */
+function* merge(
+  a: number[],
+  left: number,
+  mid: number,
+  right: number,
+): SortGenerator {
+  const n = a.length;
+  const aux: number[] = [];
+  for (let i = left; i <= mid; i++) {
+    yield stash(aux, i, a[i], i);
+  }
+  for (let j = mid + 1; j <= right; j++) {
+    yield stash(aux, n + j, a[j], j);
+  }
+
+  let i = left,
+    j = mid + 1,
+    k = left;
+
+  while (i <= mid && j <= right) {
+    yield compareAux(i, n + j);
+    if (aux[i] <= aux[n + j]) {
+      yield unstash(a, k++, aux, i++);
+    } else {
+      yield unstash(a, k++, aux, n + j++);
+    }
+  }
+
+  while (i <= mid) {
+    yield unstash(a, k++, aux, i++);
+  }
+
+  while (j <= right) {
+    yield unstash(a, k++, aux, n + j++);
+  }
+}
+
+/**
+ * Merge A[left..mid] and A[mid+1..right] with no buffer: split the longer run
+ * in half, binary search where its middle lands in the other run, rotate the
+ * block between into place, then merge the two smaller pairs of runs.
+ */
+function* inPlaceMerge(
+  a: number[],
+  left: number,
+  mid: number,
+  right: number,
+): SortGenerator {
+  const len1 = mid - left + 1;
+  const len2 = right - mid;
+  if (len1 === 0 || len2 === 0) return;
+  if (len1 + len2 === 2) {
+    yield* during(11, sortTwo(a, left, right));
+    return;
+  }
+
+  let cut1: number;
+  let cut2: number;
+  if (len1 >= len2) {
+    // First element of run 2 not less than the middle of run 1
+    cut1 = left + Math.floor(len1 / 2);
+    let low = mid + 1;
+    let high = right + 1;
+    while (low < high) {
+      const probe = Math.floor((low + high) / 2);
+      yield at(10, compare(probe, cut1), { probe });
+      if (a[probe] < a[cut1]) low = probe + 1;
+      else high = probe;
+    }
+    cut2 = low;
+  } else {
+    // First element of run 1 greater than the middle of run 2
+    cut2 = mid + 1 + Math.floor(len2 / 2);
+    let low = left;
+    let high = mid + 1;
+    while (low < high) {
+      const probe = Math.floor((low + high) / 2);
+      yield at(10, compare(cut2, probe), { probe });
+      if (a[cut2] < a[probe]) high = probe;
+      else low = probe + 1;
+    }
+    cut1 = low;
+  }
+
+  yield* during(11, rotate(a, cut1, mid + 1, cut2));
+  const newMid = cut1 + (cut2 - mid - 1);
+  yield* inPlaceMerge(a, left, cut1 - 1, newMid - 1);
+  yield* inPlaceMerge(a, newMid, cut2 - 1, right);
+}
+
+/** Rotate A[first..last-1] left so that A[middle] moves to A[first] */
+function* rotate(
+  a: number[],
+  first: number,
+  middle: number,
+  last: number,
+): SortGenerator {
+  if (first === middle || middle === last) return;
+  // Three reversals, each one a run of swaps
+  yield* reverseRange(a, first, middle - 1);
+  yield* reverseRange(a, middle, last - 1);
+  yield* reverseRange(a, first, last - 1);
+}
+
+function* reverseRange(a: number[], low: number, high: number): SortGenerator {
+  for (let i = low, j = high; i < j; i++, j--) {
+    yield swap(a, i, j);
+  }
+}
+
+/** Heap Sort */
+export function* heapSort(a: number[]): SortGenerator {
+  yield* heapSortRange(a, 0, a.length - 1);
+}
+
+/** Heap sort A[low..high], with the heap rooted at A[low] */
+function* heapSortRange(a: number[], low: number, high: number): SortGenerator {
+  const n = high - low + 1;
+  yield at(2, heap({ low, high, size: n }));
+  for (let i = Math.floor(n / 2) - 1; i >= 0; i--) {
+    yield* during(2, heapify(a, n, i, low));
+  }
+
+  for (let i = n - 1; i > 0; i--) {
+    yield at(4, swap(a, low, low + i), { i: low + i });
+    yield at(4, heap({ low, high, size: i }));
+    yield* during(5, heapify(a, i, 0, low));
+  }
+  yield heap(null);
+}
+
+/** Sift heap node i down, for a heap of n nodes stored from A[base] */
+function* heapify(a: number[], n: number, i: number, base = 0): SortGenerator {
+  let largest = i;
+  const left = 2 * i + 1;
+  const right = 2 * i + 2;
+
+  if (left < n) {
+    yield at(5, compare(base + left, base + largest), { node: base + i });
+    if (a[base + left] > a[base + largest]) {
+      largest = left;
+    }
+  }
+
+  if (right < n) {
+    yield compare(base + right, base + largest);
+    if (a[base + right] > a[base + largest]) {
+      largest = right;
+    }
+  }
+
+  if (largest !== i) {
+    yield swap(a, base + i, base + largest);
+    yield* heapify(a, n, largest, base);
+  }
+}
+
+/** Digit bases Radix Sort can work in */
+export const radixBases = [2, 4, 10, 16, 256] as const;
+export type RadixBase = (typeof radixBases)[number];
+
+/** Least significant digit first, or most significant first (recursively) */
+export const radixModes = ['LSD', 'MSD'] as const;
+export type RadixMode = (typeof radixModes)[number];
+
+export interface RadixSortOptions {
+  base: RadixBase;
+  mode: RadixMode;
+}
+
+/**
+ * Radix Sort, by default LSD in base 10. Keys are taken relative to the
+ * smallest value, so negative integers sort too.
+ */
+export function* radixSort(
+  a: number[],
+  options: Partial<RadixSortOptions> = {},
+): SortGenerator {
+  const { base = 10, mode = 'LSD' } = options;
+  const n = a.length;
+  if (n < 2) return;
+
+  const min = Math.min(...a);
+  const range = Math.max(...a) - min;
+  let digits = 1;
+  for (let place = base; place <= range; place *= base) digits++;
+
+  // Buckets are laid out in auxiliary memory, one slot per element
+  const aux: number[] = [];
+  if (mode === 'MSD') {
+    const place = base ** (digits - 1);
+    yield* msdRadixPass(a, aux, 0, n - 1, { min, base, digits }, place);
+  } else {
+    for (let digit = 1, place = 1; digit <= digits; digit++, place *= base) {
+      yield at(4, phase(`Digit ${digit} of ${digits}`), {}, { exp: place });
+      const digitOf = (value: number) =>
+        Math.floor((value - min) / place) % base;
+      yield* distribute(a, aux, 0, n - 1, base, digitOf, 9);
+    }
+  }
+  yield buckets(null);
+  yield phase(null);
+}
+
+/** Sort A[low..high] on the digit at `place`, then each bucket on the next */
+function* msdRadixPass(
+  a: number[],
+  aux: number[],
+  low: number,
+  high: number,
+  key: { min: number; base: number; digits: number },
+  place: number,
+): SortGenerator {
+  if (low >= high || place < 1) return;
+  const { min, base, digits } = key;
+  yield at(6, enter(low, high), { low, high }, { exp: place });
+  const digit = Math.round(Math.log(place) / Math.log(base)) + 1;
+  yield at(6, phase(`Digit ${digit} of ${digits}`));
+  const digitOf = (value: number) => Math.floor((value - min) / place) % base;
+  const starts = yield* distribute(a, aux, low, high, base, digitOf, 10);
+  for (let bucket = 0; bucket < base; bucket++) {
+    const end = bucket + 1 < base ? starts[bucket + 1] - 1 : high;
+    yield* msdRadixPass(a, aux, starts[bucket], end, key, place / base);
+  }
+  yield exit(low, high);
+}
+
+/**
+ * Stable scatter of A[low..high] into `bucketCount` buckets: count each
+ * bucket, move every element into its bucket in aux[low..high], then copy
+ * the buckets back in order. Returns the first slot of each bucket. The
+ * three steps are pseudo-code lines `line`, `line + 1` and `line + 2`.
+ */
+function* distribute(
+  a: number[],
+  aux: number[],
+  low: number,
+  high: number,
+  bucketCount: number,
+  bucketOf: (value: number) => number,
+  line: number,
+): SortGenerator<number[]> {
+  const count = new Array(bucketCount).fill(0);
+  for (let i = low; i <= high; i++) {
+    yield at(line, read(i), { i });
+    count[bucketOf(a[i])]++;
+  }
+
+  const starts = [low];
+  for (let bucket = 1; bucket < bucketCount; bucket++) {
+    starts.push(starts[bucket - 1] + count[bucket - 1]);
+  }
+  yield at(line + 1, buckets(starts));
+
+  const next = starts.slice();
+  for (let i = low; i <= high; i++) {
+    yield at(line + 1, stash(aux, next[bucketOf(a[i])]++, a[i], i), { i });
+  }
+  for (let i = low; i <= high; i++) {
+    yield at(line + 2, unstash(a, i, aux, i), { i });
+  }
+  return starts;
+}
+
+/** Gap sequences Shell Sort can use */
+export const gapSequences = [
+  'Shell',
+  'Hibbard',
+  'Knuth',
+  'Sedgewick',
+  'Tokuda',
+  'Ciura',
+] as const;
+export type GapSequence = (typeof gapSequences)[number];
+
+export interface ShellSortOptions {
+  gaps: GapSequence;
+}
+
+/** Ciura's experimentally found gaps, extended by a factor of 2.25 */
+const CIURA_GAPS = [1, 4, 10, 23, 57, 132, 301, 701, 1750];
+
+/** The gaps of a sequence that fit an array of n elements, largest first */
+export function shellGaps(n: number, sequence: GapSequence): number[] {
+  if (sequence === 'Shell') {
+    const gaps: number[] = [];
+    for (let gap = Math.floor(n / 2); gap > 0; gap = Math.floor(gap / 2)) {
+      gaps.push(gap);
+    }
+    return gaps;
+  }
+
+  // The remaining sequences grow from 1, so build them up and reverse
+  const gaps = [1];
+  for (let k = 1; ; k++) {
+    let next: number;
+    switch (sequence) {
+      case 'Hibbard':
+        next = 2 ** (k + 1) - 1;
+        break;
+      case 'Knuth':
+        next = (3 ** (k + 1) - 1) / 2;
+        break;
+      case 'Sedgewick':
+        next = 4 ** k + 3 * 2 ** (k - 1) + 1;
+        break;
+      case 'Tokuda':
+        next = Math.ceil((9 * (9 / 4) ** k - 4) / 5);
+        break;
+      case 'Ciura':
+        next = CIURA_GAPS[k] ?? Math.floor(gaps[k - 1] * 2.25);
+        break;
+    }
+    // Knuth stops at n/3, as a bigger first gap does little work
+    const limit = sequence === 'Knuth' ? Math.ceil(n / 3) : n;
+    if (next >= limit) break;
+    gaps.push(next);
+  }
+  return n > 1 ? gaps.reverse() : [];
+}
+
+/** Shell Sort, by default with Shell's original n/2, n/4, ..., 1 gaps */
+export function* shellSort(
+  a: number[],
+  options: Partial<ShellSortOptions> = {},
+): SortGenerator {
+  const { gaps = 'Shell' } = options;
+  const n = a.length;
+  for (const h of shellGaps(n, gaps)) {
+    yield at(2, gap(h));
+    for (let i = h; i < n; i++) {
+      const temp = a[i];
+      yield at(4, read(i), { i, j: i });
+
+      let j = i;
+      while (j >= h) {
+        yield at(6, compare(j - h, j), { j });
+        if (a[j - h] <= temp) break;
+        yield at(7, write(a, j, a[j - h]));
+        j -= h;
+      }
+      yield at(9, write(a, j, temp));
+    }
+  }
+  yield gap(null);
+}
+
+/** Cocktail Shaker Sort */
+export function* cocktailShakerSort(a: number[]): SortGenerator {
+  let swapped = true;
+  let start = 0;
+  let end = a.length - 1;
+
+  while (swapped) {
+    swapped = false;
+    for (let i = start; i < end; i++) {
+      yield at(8, compare(i, i + 1), { i, start, end });
+      if (a[i] > a[i + 1]) {
+        yield at(8, swap(a, i, i + 1));
+        swapped = true;
+      }
+    }
+    if (!swapped) break;
+    swapped = false;
+    end--;
+
+    for (let i = end - 1; i >= start; i--) {
+      yield at(11, compare(i, i + 1), { i, start, end });
+      if (a[i] > a[i + 1]) {
+        yield at(11, swap(a, i, i + 1));
+        swapped = true;
+      }
+    }
+    start++;
+  }
+}
+
+/** Gnome Sort */
+export function* gnomeSort(a: number[]): SortGenerator {
+  let idx = 0;
+  const n = a.length;
+
+  while (idx < n) {
+    if (idx === 0) {
+      idx++;
+      continue;
+    }
+    yield at(4, compare(idx, idx - 1), { i: idx });
+    if (a[idx] >= a[idx - 1]) {
+      idx++;
+    } else {
+      yield at(6, swap(a, idx, idx - 1));
+      idx--;
+    }
+  }
+}
+
+/**
+ * ===================
+ * Hybrid Sorts
+ * ===================
+ *
+ * The algorithms behind real library sorts. They announce each phase they
+ * move into, so the visualizer can show which strategy is running.
+ */
+
+/** Runs shorter than this are extended with insertion sort */
+const TIM_MIN_MERGE = 32;
+/** Consecutive wins by one run before a merge starts galloping */
+const TIM_MIN_GALLOP = 7;
+
+/** Tim Sort */
+export function* timSort(a: number[]): SortGenerator {
+  const n = a.length;
+  if (n < 2) return;
+
+  const minRun = timMinRunLength(n);
+  const runs: { base: number; length: number }[] = [];
+  let low = 0;
+  while (low < n) {
+    yield at(3, phase('Finding runs'), { low }, { minRun, runs: runs.length });
+    let length = yield* timFindRun(a, low, n);
+
+    // Short runs are topped up to minRun with insertion sort
+    if (length < minRun) {
+      const forced = Math.min(minRun, n - low);
+      yield at(5, phase('Extending run'));
+      yield enter(low, low + forced - 1);
+      yield* during(
+        5,
+        insertionSortRange(a, low, low + forced - 1, low + length),
+      );
+      yield exit(low, low + forced - 1);
+      length = forced;
+    }
+
+    runs.push({ base: low, length });
+    yield* during(8, timMergeCollapse(a, runs));
+    low += length;
+  }
+
+  // Merge whatever is left on the run stack
+  while (runs.length > 1) {
+    let i = runs.length - 2;
+    if (i > 0 && runs[i - 1].length < runs[i + 1].length) i--;
+    yield* during(9, timMergeAt(a, runs, i));
+  }
+  yield phase(null);
+}
+
+/** Minimum run length, chosen so n / minRun is a power of two or just under */
+function timMinRunLength(n: number): number {
+  let r = 0;
+  while (n >= TIM_MIN_MERGE) {
+    r |= n & 1;
+    n >>= 1;
+  }
+  return n + r;
+}
+
+/**
+ * Length of the run starting at A[low]. A strictly descending run is
+ * reversed in place, so every run ends up ascending.
+ */
+function* timFindRun(
+  a: number[],
+  low: number,
+  n: number,
+): SortGenerator<number> {
+  let high = low + 1;
+  if (high === n) return 1;
+
+  yield at(3, compare(high, low));
+  if (a[high] < a[low]) {
+    high++;
+    while (high < n) {
+      yield at(3, compare(high, high - 1));
+      if (!(a[high] < a[high - 1])) break;
+      high++;
+    }
+    for (let i = low, j = high - 1; i < j; i++, j--) {
+      yield at(4, swap(a, i, j));
+    }
+  } else {
+    high++;
+    while (high < n) {
+      yield at(3, compare(high, high - 1));
+      if (a[high] < a[high - 1]) break;
+      high++;
+    }
+  }
+  return high - low;
+}
+
+/** Merge runs on the stack until their lengths satisfy TimSort's invariants */
+function* timMergeCollapse(
+  a: number[],
+  runs: { base: number; length: number }[],
+): SortGenerator {
+  while (runs.length > 1) {
+    let i = runs.length - 2;
+    const len = (idx: number) => runs[idx].length;
+    if (
+      (i > 0 && len(i - 1) <= len(i) + len(i + 1)) ||
+      (i > 1 && len(i - 2) <= len(i - 1) + len(i))
+    ) {
+      if (len(i - 1) < len(i + 1)) i--;
+    } else if (len(i) > len(i + 1)) {
+      break;
+    }
+    yield* timMergeAt(a, runs, i);
+  }
+}
+
+/** Merge run i with run i + 1 on the stack */
+function* timMergeAt(
+  a: number[],
+  runs: { base: number; length: number }[],
+  i: number,
+): SortGenerator {
+  let { base: base1, length: len1 } = runs[i];
+  const { base: base2 } = runs[i + 1];
+  let len2 = runs[i + 1].length;
+  runs[i] = { base: base1, length: len1 + len2 };
+  runs.splice(i + 1, 1);
+
+  yield phase('Merging');
+  yield enter(base1, base2 + len2 - 1);
+
+  // Elements of run 1 no bigger than run 2's first are already in place, and
+  // so are elements of run 2 no smaller than run 1's last
+  const skipped = yield* gallop(a, base1, len1, a[base2], true, (k) =>
+    compare(base1 + k, base2),
+  );
+  base1 += skipped;
+  len1 -= skipped;
+  if (len1 > 0) {
+    const last1 = base1 + len1 - 1;
+    len2 = yield* gallop(a, base2, len2, a[last1], false, (k) =>
+      compare(base2 + k, last1),
+    );
+    if (len2 > 0) {
+      yield* timMergeLow(a, base1, len1, base2, len2);
+    }
+  }
+  yield exit(runs[i].base, runs[i].base + runs[i].length - 1);
+}
+
+/**
+ * Count the leading elements of run[base..base+length) that are below `key`
+ * (or equal to it, if `inclusive`): probe 1, 3, 7, ... ahead, then binary
+ * search the last gap. `compareAt` records the comparison of the key with
+ * the probe `idx` elements in, wherever the two are drawn.
+ */
+function* gallop(
+  run: number[],
+  base: number,
+  length: number,
+  key: number,
+  inclusive: boolean,
+  compareAt: (idx: number) => SortOp,
+): SortGenerator<number> {
+  const goesFirst = (idx: number) =>
+    inclusive ? run[base + idx] <= key : run[base + idx] < key;
+
+  let low = 0;
+  let step = 1;
+  while (low + step - 1 < length) {
+    yield compareAt(low + step - 1);
+    if (!goesFirst(low + step - 1)) break;
+    low += step;
+    step *= 2;
+  }
+
+  let high = Math.min(length, low + step - 1);
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    yield compareAt(mid);
+    if (goesFirst(mid)) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Merge adjacent runs by copying run 1 aside (into auxiliary memory, behind
+ * where it was) and filling from the left. When one run wins TIM_MIN_GALLOP
+ * times in a row, gallop to find how many of its elements can be moved in
+ * one go.
+ */
+function* timMergeLow(
+  a: number[],
+  base1: number,
+  len1: number,
+  base2: number,
+  len2: number,
+): SortGenerator {
+  const temp: number[] = [];
+  for (let i = base1; i < base1 + len1; i++) {
+    yield stash(temp, i, a[i], i);
+  }
+
+  // cursor1 walks the slots of run 1's copy
+  let cursor1 = base1;
+  let cursor2 = base2;
+  let dest = base1;
+  const end1 = base1 + len1;
+  const end2 = base2 + len2;
+  while (cursor1 < end1 && cursor2 < end2) {
+    let wins1 = 0;
+    let wins2 = 0;
+    while (
+      cursor1 < end1 &&
+      cursor2 < end2 &&
+      wins1 < TIM_MIN_GALLOP &&
+      wins2 < TIM_MIN_GALLOP
+    ) {
+      yield at(8, compareWithAux(cursor1, cursor2), { dest, cursor2 });
+      if (a[cursor2] < temp[cursor1]) {
+        yield write(a, dest++, a[cursor2++]);
+        wins2++;
+        wins1 = 0;
+      } else {
+        yield unstash(a, dest++, temp, cursor1++);
+        wins1++;
+        wins2 = 0;
+      }
+    }
+    if (cursor1 === end1 || cursor2 === end2) break;
+
+    yield phase('Galloping');
+    if (wins1 >= TIM_MIN_GALLOP) {
+      const count = yield* gallop(
+        temp,
+        cursor1,
+        end1 - cursor1,
+        a[cursor2],
+        true,
+        (k) => compareWithAux(cursor1 + k, cursor2),
+      );
+      for (let k = 0; k < count; k++) {
+        yield unstash(a, dest++, temp, cursor1++);
+      }
+    } else {
+      const count = yield* gallop(
+        a,
+        cursor2,
+        end2 - cursor2,
+        temp[cursor1],
+        false,
+        (k) => compareWithAux(cursor1, cursor2 + k),
+      );
+      for (let k = 0; k < count; k++) {
+        yield write(a, dest++, a[cursor2++]);
+      }
+    }
+    yield phase('Merging');
+  }
+
+  // Whatever is left of run 2 is already in place
+  while (cursor1 < end1) {
+    yield unstash(a, dest++, temp, cursor1++);
+  }
+}
+
+/** Partitions this small are left for the final insertion sort */
+const INTRO_THRESHOLD = 16;
+
+/** Intro Sort */
+export function* introSort(a: number[]): SortGenerator {
+  const depthLimit = 2 * Math.floor(Math.log2(Math.max(1, a.length)));
+  yield at(2, phase('Quick sort'));
+  yield* introSortHelper(a, 0, a.length - 1, depthLimit);
+  yield at(3, phase('Insertion sort'));
+  yield* during(3, insertionSortRange(a, 0, a.length - 1));
+  yield phase(null);
+}
+
+function* introSortHelper(
+  a: number[],
+  low: number,
+  high: number,
+  depth: number,
+): SortGenerator {
+  if (high - low + 1 <= INTRO_THRESHOLD) return;
+  yield at(6, enter(low, high), { low, high }, { depth });
+  if (depth === 0) {
+    // Quick sort is going quadratic here, so finish the range with heap sort
+    yield at(8, phase('Heap sort fallback'));
+    yield* during(8, heapSortRange(a, low, high));
+    yield phase('Quick sort');
+  } else {
+    yield* during(10, medianOfThreeToEnd(a, low, high));
+    const pi = yield* during(10, quickPartition(a, low, high));
+    yield* introSortHelper(a, low, pi - 1, depth - 1);
+    yield* introSortHelper(a, pi + 1, high, depth - 1);
+  }
+  yield exit(low, high);
+}
+
+/** Order A[i], A[j], A[k] with two or three compare-and-swaps */
+function* sortThree(
+  a: number[],
+  i: number,
+  j: number,
+  k: number,
+): SortGenerator {
+  yield* sortTwo(a, i, j);
+  yield* sortTwo(a, j, k);
+  yield* sortTwo(a, i, j);
+}
+
+function* sortTwo(a: number[], i: number, j: number): SortGenerator {
+  yield compare(j, i);
+  if (a[j] < a[i]) {
+    yield swap(a, i, j);
+  }
+}
+
+/** Move the median of the first, middle and last elements to A[high] */
+function* medianOfThreeToEnd(
+  a: number[],
+  low: number,
+  high: number,
+): SortGenerator {
+  const mid = Math.floor((low + high) / 2);
+  yield* sortThree(a, low, mid, high);
+  yield swap(a, mid, high);
+}
+
+/** Ranges this small are finished with insertion sort */
+const PDQ_INSERTION_THRESHOLD = 24;
+/** Ranges this big pick their pivot as a median of medians (a ninther) */
+const PDQ_NINTHER_THRESHOLD = 128;
+/** Partial insertion sort gives up after moving this many elements */
+const PDQ_PARTIAL_LIMIT = 8;
+
+/** Pattern-Defeating Quick Sort */
+export function* pdqSort(a: number[]): SortGenerator {
+  const badAllowed = Math.floor(Math.log2(Math.max(1, a.length)));
+  yield* pdqLoop(a, 0, a.length, badAllowed, true);
+  yield phase(null);
+}
+
+/** Sort A[begin..end), where `leftmost` means nothing smaller lies to the left */
+function* pdqLoop(
+  a: number[],
+  begin: number,
+  end: number,
+  badAllowed: number,
+  leftmost: boolean,
+): SortGenerator {
+  while (true) {
+    const size = end - begin;
+    if (size < PDQ_INSERTION_THRESHOLD) {
+      yield at(4, phase('Insertion sort'));
+      yield* during(4, insertionSortRange(a, begin, end - 1));
+      return;
+    }
+
+    yield at(
+      6,
+      phase('Partition'),
+      { begin, end: end - 1 },
+      { bad: badAllowed },
+    );
+    yield enter(begin, end - 1);
+    yield* during(6, pdqChoosePivot(a, begin, end));
+
+    // A pivot equal to the previous one means a run of equal keys: put them
+    // all on the left and never look at them again
+    if (!leftmost) {
+      yield at(7, compare(begin - 1, begin));
+      if (!(a[begin - 1] < a[begin])) {
+        yield at(8, phase('Equal keys'));
+        const pivotPos = yield* during(8, pdqPartitionLeft(a, begin, end));
+        yield exit(begin, end - 1);
+        begin = pivotPos + 1;
+        continue;
+      }
+    }
+
+    const [pivotPos, alreadyPartitioned] = yield* during(
+      9,
+      pdqPartitionRight(a, begin, end),
+    );
+    const leftSize = pivotPos - begin;
+    const rightSize = end - (pivotPos + 1);
+    const isUnbalanced = leftSize < size / 8 || rightSize < size / 8;
+
+    if (isUnbalanced) {
+      badAllowed--;
+      if (badAllowed === 0) {
+        // Too many bad pivots: heap sort keeps the worst case O(n log n)
+        yield at(11, phase('Heap sort fallback'));
+        yield* during(11, heapSortRange(a, begin, end - 1));
+        yield exit(begin, end - 1);
+        return;
+      }
+
+      // Swap a few elements around to break up whatever pattern fooled us
+      yield at(12, phase('Breaking patterns'));
+      if (leftSize >= PDQ_INSERTION_THRESHOLD) {
+        const quarter = Math.floor(leftSize / 4);
+        yield at(12, swap(a, begin, begin + quarter));
+        yield at(12, swap(a, pivotPos - 1, pivotPos - quarter));
+      }
+      if (rightSize >= PDQ_INSERTION_THRESHOLD) {
+        const quarter = Math.floor(rightSize / 4);
+        yield at(12, swap(a, pivotPos + 1, pivotPos + 1 + quarter));
+        yield at(12, swap(a, end - 1, end - quarter));
+      }
+    } else if (alreadyPartitioned) {
+      // No swaps were needed, so the input may be (nearly) sorted already
+      yield at(13, phase('Partial insertion sort'));
+      if (
+        (yield* during(13, pdqPartialInsertionSort(a, begin, pivotPos))) &&
+        (yield* during(13, pdqPartialInsertionSort(a, pivotPos + 1, end)))
+      ) {
+        yield exit(begin, end - 1);
+        return;
+      }
+    }
+
+    yield* pdqLoop(a, begin, pivotPos, badAllowed, leftmost);
+    yield exit(begin, end - 1);
+    begin = pivotPos + 1;
+    leftmost = false;
+  }
+}
+
+/** Move the median of three (or, for big ranges, a ninther) to A[begin] */
+function* pdqChoosePivot(
+  a: number[],
+  begin: number,
+  end: number,
+): SortGenerator {
+  const size = end - begin;
+  const half = Math.floor(size / 2);
+  if (size > PDQ_NINTHER_THRESHOLD) {
+    yield* sortThree(a, begin, begin + half, end - 1);
+    yield* sortThree(a, begin + 1, begin + half - 1, end - 2);
+    yield* sortThree(a, begin + 2, begin + half + 1, end - 3);
+    yield* sortThree(a, begin + half - 1, begin + half, begin + half + 1);
+    yield swap(a, begin, begin + half);
+  } else {
+    yield* sortThree(a, begin + half, begin, end - 1);
+  }
+}
+
+/**
+ * Partition A[begin..end) around the pivot at A[begin], with equal keys going
+ * right. Returns the pivot's final position, and whether the range was
+ * already partitioned.
+ */
+function* pdqPartitionRight(
+  a: number[],
+  begin: number,
+  end: number,
+): SortGenerator<[number, boolean]> {
+  const pivotValue = a[begin];
+  yield pivot(begin);
+  let first = begin;
+  let last = end;
+
+  // The median selection guarantees both scans stop inside the range
+  do {
+    first++;
+    yield compare(first, begin);
+  } while (a[first] < pivotValue);
+
+  if (first - 1 === begin) {
+    while (first < last) {
+      last--;
+      yield compare(last, begin);
+      if (a[last] < pivotValue) break;
+    }
+  } else {
+    do {
+      last--;
+      yield compare(last, begin);
+    } while (!(a[last] < pivotValue));
+  }
+
+  const alreadyPartitioned = first >= last;
+  while (first < last) {
+    yield swap(a, first, last);
+    do {
+      first++;
+      yield compare(first, begin);
+    } while (a[first] < pivotValue);
+    do {
+      last--;
+      yield compare(last, begin);
+    } while (!(a[last] < pivotValue));
+  }
+
+  const pivotPos = first - 1;
+  yield swap(a, begin, pivotPos);
+  yield pivot(null);
+  return [pivotPos, alreadyPartitioned];
+}
+
+/**
+ * Partition A[begin..end) around the pivot at A[begin], with equal keys going
+ * left. Used when the pivot repeats, so it returns the pivot's final position.
+ */
+function* pdqPartitionLeft(
+  a: number[],
+  begin: number,
+  end: number,
+): SortGenerator<number> {
+  const pivotValue = a[begin];
+  yield pivot(begin);
+  let first = begin;
+  let last = end;
+
+  do {
+    last--;
+    yield compare(last, begin);
+  } while (pivotValue < a[last]);
+
+  if (last + 1 === end) {
+    while (first < last) {
+      first++;
+      yield compare(first, begin);
+      if (pivotValue < a[first]) break;
+    }
+  } else {
+    do {
+      first++;
+      yield compare(first, begin);
+    } while (!(pivotValue < a[first]));
+  }
+
+  while (first < last) {
+    yield swap(a, first, last);
+    do {
+      last--;
+      yield compare(last, begin);
+    } while (pivotValue < a[last]);
+    do {
+      first++;
+      yield compare(first, begin);
+    } while (!(pivotValue < a[first]));
+  }
+
+  yield swap(a, begin, last);
+  yield pivot(null);
+  return last;
+}
+
+/**
+ * Insertion sort A[begin..end), giving up (and returning false) once it has
+ * moved more than PDQ_PARTIAL_LIMIT elements
+ */
+function* pdqPartialInsertionSort(
+  a: number[],
+  begin: number,
+  end: number,
+): SortGenerator<boolean> {
+  let moved = 0;
+  for (let i = begin + 1; i < end; i++) {
+    if (moved > PDQ_PARTIAL_LIMIT) return false;
+    yield compare(i - 1, i);
+    if (!(a[i] < a[i - 1])) continue;
+
+    const key = a[i];
+    yield read(i);
+    let j = i;
+    do {
+      yield write(a, j, a[j - 1]);
+      j--;
+      if (j === begin) break;
+      yield compare(j - 1, j);
+    } while (key < a[j - 1]);
+    yield write(a, j, key);
+    moved += i - j;
+  }
+  return true;
+}
+
+/**
+ * ===================
+ * Sorting Networks
+ * ===================
+ *
+ * Fixed patterns of comparators that ignore the data. No two comparators in
+ * a layer touch the same element, so a whole layer can run at once (as on a
+ * GPU) and is shown as a single step. Networks built for a power-of-two size
+ * treat the missing elements as +infinity padding at the end: comparators
+ * only ever move larger values right, so any that touch the padding would
+ * never swap and are simply left out.
+ */
+
+/**
+ * Apply a network one layer at a time, skipping comparators into padding.
+ * `line` is the pseudo-code line of the network's compare-swap.
+ */
+function* runNetwork(
+  a: number[],
+  layers: Iterable<[number, number][]>,
+  line: number,
+): SortGenerator {
+  for (const pairs of layers) {
+    const inRange = pairs.filter(([, j]) => j < a.length);
+    if (inRange.length > 0) yield at(line, layer(a, inRange));
+  }
+}
+
+/** Smallest power of two that is at least n */
+function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size *= 2;
+  return size;
+}
+
+/** Bitonic Sort */
+export function* bitonicSort(a: number[]): SortGenerator {
+  yield* runNetwork(a, bitonicLayers(nextPowerOfTwo(a.length)), 6);
+}
+
+/**
+ * Layers of a bitonic sorter. Rather than flipping comparators to build
+ * descending halves, the first layer of each merge compares mirror images
+ * across the block, so every comparator points the same way.
+ */
+function* bitonicLayers(size: number): Generator<[number, number][]> {
+  for (let block = 2; block <= size; block *= 2) {
+    for (let dist = block / 2; dist >= 1; dist /= 2) {
+      const pairs: [number, number][] = [];
+      for (let i = 0; i < size; i++) {
+        const partner = dist === block / 2 ? i ^ (block - 1) : i ^ dist;
+        if (partner > i) pairs.push([i, partner]);
+      }
+      yield pairs;
+    }
+  }
+}
+
+/** Odd-Even Merge Sort */
+export function* oddEvenMergeSort(a: number[]): SortGenerator {
+  yield* runNetwork(a, oddEvenMergeLayers(nextPowerOfTwo(a.length)), 7);
+}
+
+/** Layers of Batcher's odd-even merge sorter */
+function* oddEvenMergeLayers(size: number): Generator<[number, number][]> {
+  for (let p = 1; p < size; p *= 2) {
+    for (let k = p; k >= 1; k /= 2) {
+      const pairs: [number, number][] = [];
+      for (let j = k % p; j + k < size; j += 2 * k) {
+        for (let i = 0; i < Math.min(k, size - j - k); i++) {
+          // Only compare elements inside the same pair of merged blocks
+          if (
+            Math.floor((i + j) / (2 * p)) === Math.floor((i + j + k) / (2 * p))
+          ) {
+            pairs.push([i + j, i + j + k]);
+          }
+        }
+      }
+      yield pairs;
+    }
+  }
+}
+
+/** Odd-Even Transposition Sort */
+export function* oddEvenTranspositionSort(a: number[]): SortGenerator {
+  yield* runNetwork(a, transpositionLayers(a.length), 4);
+}
+
+/** n alternating layers comparing even-odd, then odd-even neighbours */
+function* transpositionLayers(n: number): Generator<[number, number][]> {
+  for (let round = 0; round < n; round++) {
+    const pairs: [number, number][] = [];
+    for (let i = round % 2; i + 1 < n; i += 2) {
+      pairs.push([i, i + 1]);
+    }
+    yield pairs;
+  }
+}
+
+/**
+ * ===================
+ * Distribution Sorts
+ * ===================
+ *
+ * These place elements by their value instead of comparing them, so they can
+ * beat the log2(n!) comparison lower bound. Their counters and buckets live
+ * in auxiliary memory: slots 0..n-1 are drawn as one row behind the array and
+ * slots n..2n-1 as a second row behind that.
+ */
+
+/** Counting Sort */
+export function* countingSort(a: number[]): SortGenerator {
+  const n = a.length;
+  if (n < 2) return;
+  const min = Math.min(...a);
+  const keys = Math.max(...a) - min + 1;
+
+  // One counter per key in the first row, the output in the second
+  const aux: number[] = [];
+  yield at(3, phase('Counting'));
+  for (let i = 0; i < n; i++) {
+    yield at(3, read(i), { i });
+    const key = a[i] - min;
+    yield at(3, stash(aux, key, (aux[key] ?? 0) + 1), {}, { key });
+  }
+
+  // Each counter becomes the output slot of the first element with its key
+  yield at(5, phase('Prefix sums'));
+  const starts: number[] = [];
+  let total = 0;
+  for (let key = 0; key < keys; key++) {
+    const count = aux[key];
+    if (count === undefined) continue;
+    starts.push(n + total);
+    yield at(6, stash(aux, key, total), {}, { key, pos: total });
+    total += count;
+  }
+  yield at(7, buckets(starts));
+
+  yield at(8, phase('Placing'));
+  for (let i = 0; i < n; i++) {
+    const key = a[i] - min;
+    const slot = aux[key];
+    yield at(9, stash(aux, n + slot, a[i], i), { i }, { key });
+    yield at(9, stash(aux, key, slot + 1));
+  }
+
+  yield at(10, phase('Copying back'));
+  for (let i = 0; i < n; i++) {
+    yield at(10, unstash(a, i, aux, n + i), { i });
+  }
+  for (let key = 0; key < keys; key++) {
+    if (aux[key] !== undefined) yield at(10, release(aux, key));
+  }
+  yield buckets(null);
+  yield phase(null);
+}
+
+/** Bucket Sort: about eight elements per bucket, each insertion sorted */
+export function* bucketSort(a: number[]): SortGenerator {
+  const n = a.length;
+  if (n < 2) return;
+  const min = Math.min(...a);
+  const range = Math.max(...a) - min;
+  const bucketCount = Math.ceil(n / 8);
+  const bucketOf = (value: number) =>
+    range === 0
+      ? 0
+      : Math.min(
+          bucketCount - 1,
+          Math.floor(((value - min) / range) * bucketCount),
+        );
+
+  yield at(3, phase('Scattering'));
+  const aux: number[] = [];
+  const starts = yield* distribute(a, aux, 0, n - 1, bucketCount, bucketOf, 4);
+
+  yield at(7, phase('Sorting buckets'));
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const low = starts[bucket];
+    const high = bucket + 1 < bucketCount ? starts[bucket + 1] - 1 : n - 1;
+    if (low >= high) continue;
+    yield at(7, enter(low, high), { l: low, h: high }, { bucket });
+    yield* during(8, insertionSortRange(a, low, high));
+    yield exit(low, high);
+  }
+  yield buckets(null);
+  yield phase(null);
+}
+
+/** Pigeonhole Sort */
+export function* pigeonholeSort(a: number[]): SortGenerator {
+  const n = a.length;
+  if (n < 2) return;
+  const min = Math.min(...a);
+  const holes = Math.max(...a) - min + 1;
+
+  // Every hole counts the pigeons (copies of its key) dropped into it
+  const aux: number[] = [];
+  yield at(3, phase('Filling holes'));
+  for (let i = 0; i < n; i++) {
+    yield at(3, read(i), { i });
+    const hole = a[i] - min;
+    yield at(3, stash(aux, hole, (aux[hole] ?? 0) + 1));
+  }
+
+  // The keys are rebuilt from the holes, so elements do not keep an identity
+  yield at(5, phase('Emptying holes'));
+  let index = 0;
+  for (let hole = 0; hole < holes; hole++) {
+    for (let left = aux[hole] ?? 0; left > 0; left--) {
+      yield at(7, write(a, index, min + hole), { i: index }, { h: hole });
+      index++;
+      yield at(6, left > 1 ? stash(aux, hole, left - 1) : release(aux, hole));
+    }
+  }
+  yield phase(null);
+}
+
+/**
+ * Flash Sort: count the elements in each of about 0.43n value classes,
+ * permute every element into its class in place, then finish with insertion
+ * sort, which has little left to do.
+ */
+export function* flashSort(a: number[]): SortGenerator {
+  const n = a.length;
+  if (n < 2) return;
+  const min = Math.min(...a);
+  const max = Math.max(...a);
+  if (max === min) return;
+  const classes = Math.max(2, Math.floor(0.43 * n));
+  const classOf = (value: number) =>
+    Math.floor(((classes - 1) * (value - min)) / (max - min));
+
+  // Elements still to be placed in each class, in the first auxiliary row
+  const aux: number[] = [];
+  yield at(4, phase('Classifying'));
+  for (let i = 0; i < n; i++) {
+    yield at(4, read(i), { i });
+    const c = classOf(a[i]);
+    yield at(4, stash(aux, c, (aux[c] ?? 0) + 1));
+  }
+
+  const starts: number[] = [];
+  let total = 0;
+  for (let c = 0; c < classes; c++) {
+    starts.push(total);
+    total += aux[c] ?? 0;
+  }
+
+  // Cycle elements into their classes; each placement drains a counter
+  yield at(6, phase('Permuting'));
+  const next = starts.slice();
+  for (let c = 0; c < classes; c++) {
+    const end = c + 1 < classes ? starts[c + 1] : n;
+    while (next[c] < end) {
+      yield at(7, read(next[c]), { s: next[c] }, { c });
+      const target = classOf(a[next[c]]);
+      if (target === c) {
+        next[c]++;
+      } else {
+        yield at(8, swap(a, next[c], next[target]));
+        next[target]++;
+      }
+      const left = aux[target] - 1;
+      const drain = left > 0 ? stash(aux, target, left) : release(aux, target);
+      yield at(target === c ? 7 : 8, drain);
+    }
+  }
+
+  yield at(9, phase('Insertion sort'));
+  yield* during(9, insertionSortRange(a, 0, n - 1));
+  yield phase(null);
+}
+
+/** Every available algorithm, keyed by its display name */
+export const sortAlgorithms: Record<string, SortAlgorithm> = {
+  'Selection Sort': selectionSort,
+  'Insertion Sort': insertionSort,
+  'Quick Sort': quickSort,
+  'Merge Sort': mergeSort,
+  'Heap Sort': heapSort,
+  'Radix Sort': radixSort,
+  'Shell Sort': shellSort,
+  'Bubble Sort': bubbleSort,
+  'Cocktail Shaker Sort': cocktailShakerSort,
+  'Gnome Sort': gnomeSort,
+  'Tim Sort': timSort,
+  'Intro Sort': introSort,
+  'Pattern-Defeating Quick Sort': pdqSort,
+  'Bitonic Sort': bitonicSort,
+  'Odd-Even Merge Sort': oddEvenMergeSort,
+  'Odd-Even Transposition Sort': oddEvenTranspositionSort,
+  'Counting Sort': countingSort,
+  'Bucket Sort': bucketSort,
+  'Pigeonhole Sort': pigeonholeSort,
+  'Flash Sort': flashSort,
+};
+
+/**
+ * Input checks for algorithms that cannot sort arbitrary numbers. Each
+ * returns why the values cannot be sorted, or null if they can.
+ */
+export const inputRestrictions: Record<
+  string,
+  (values: number[]) => string | null
+> = {
+  'Radix Sort': (values) =>
+    values.every((value) => Number.isInteger(value))
+      ? null
+      : 'Radix Sort works digit by digit, so it only handles integers',
+  'Counting Sort': (values) =>
+    keyRangeRestriction('Counting Sort', 'counter', values),
+  'Pigeonhole Sort': (values) =>
+    keyRangeRestriction('Pigeonhole Sort', 'hole', values),
+};
+
+/** Sorts with one slot per possible key need integer keys that fit a row */
+function keyRangeRestriction(
+  name: string,
+  slot: string,
+  values: number[],
+): string | null {
+  if (!values.every((value) => Number.isInteger(value))) {
+    return `${name} keeps a ${slot} per key, so it only handles integers`;
+  }
+  const keys = Math.max(...values) - Math.min(...values) + 1;
+  return keys <= values.length
+    ? null
+    : `${name} keeps a ${slot} for every integer from min to max, so max - min + 1 must not exceed the number of values`;
+}
@@ -0,0 +1,288 @@
+/**
+ * ==============
+ * Sonification
+ * ==============
+ *
+ * Operations sound a short tone whose pitch follows the value involved.
+ * Comparisons and writes can use different waveforms, pitches can snap to a
+ * musical scale, and only so many tones sound at once.
+ */
+import type { SortOp } from './trace';
+
+export const waveforms = ['sine', 'triangle', 'square', 'sawtooth'] as const;
+export type Waveform = (typeof waveforms)[number];
+
+/** Semitones above C that each scale allows, or null for any pitch */
+export const scales = {
+  Continuous: null,
+  Chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  Pentatonic: [0, 2, 4, 7, 9],
+  Major: [0, 2, 4, 5, 7, 9, 11],
+} satisfies Record<string, number[] | null>;
+export type ScaleName = keyof typeof scales;
+
+/** Comparisons and reads look at values, writes and swaps move them */
+export type ToneKind = 'compare' | 'write';
+
+export interface ToneSettings {
+  /** Master volume, from 0 to 1 */
+  volume: number;
+  compareWave: Waveform;
+  writeWave: Waveform;
+  scale: ScaleName;
+  /** Pitches of the smallest and largest values, in Hz */
+  lowPitch: number;
+  highPitch: number;
+  /** Most tones sounding at once; any more are dropped */
+  maxVoices: number;
+}
+
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+/** Length of a tone, and how it rises to its peak and falls away, in seconds */
+export const TONE_DURATION = 0.05;
+export const TONE_ATTACK = 0.01;
+export const TONE_PEAK = 0.1;
+/** When a tone's oscillator stops, just after it has faded out */
+const TONE_STOP = TONE_DURATION + 0.01;
+
+/** Smallest and largest of the values, without spreading them as arguments */
+export function valueRange(values: number[]): ValueRange {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return values.length > 0 ? { min, max } : { min: 0, max: 0 };
+}
+
+/** Pitch of MIDI note `note`, in Hz */
+function noteFrequency(note: number): number {
+  return 440 * 2 ** ((note - 69) / 12);
+}
+
+/** MIDI note (possibly fractional) of a pitch in Hz */
+function frequencyNote(frequency: number): number {
+  return 69 + 12 * Math.log2(frequency / 440);
+}
+
+/** The note of the scale nearest to `note`, rounding down on a tie */
+function snapToScale(note: number, degrees: number[]): number {
+  const nearest = Math.round(note);
+  for (let offset = 0; offset < 12; offset++) {
+    for (const candidate of [nearest - offset, nearest + offset]) {
+      if (degrees.includes(((candidate % 12) + 12) % 12)) return candidate;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Pitch for a value: spread evenly in Hz between the low and high pitches,
+ * or, on a scale, spread evenly over the notes between them and snapped
+ */
+export function toneFrequency(
+  value: number,
+  range: ValueRange,
+  settings: ToneSettings,
+): number {
+  const low = Math.min(settings.lowPitch, settings.highPitch);
+  const high = Math.max(settings.lowPitch, settings.highPitch);
+  const normalized = (value - range.min) / (range.max - range.min || 1);
+  const degrees = scales[settings.scale];
+  if (!degrees) return low + normalized * (high - low);
+
+  const lowNote = frequencyNote(low);
+  const note = lowNote + normalized * (frequencyNote(high) - lowNote);
+  return noteFrequency(snapToScale(note, degrees));
+}
+
+/** Which sound an operation makes */
+export function toneKind(op: SortOp): ToneKind {
+  switch (op.type) {
+    case 'swap':
+    case 'write':
+    case 'stash':
+    case 'unstash':
+      return 'write';
+    default:
+      return 'compare';
+  }
+}
+
+/**
+ * ===============
+ * Live Playback
+ * ===============
+ */
+
+// Created on first use, so the functions above also work outside a browser
+let audioCtx: AudioContext | null = null;
+let masterGain: GainNode;
+
+/** Tones started that have not yet stopped */
+let activeVoices = 0;
+
+/** The page's audio context, and the master volume every tone goes through */
+function audioContext(): AudioContext {
+  if (!audioCtx) {
+    audioCtx = new (window.AudioContext ||
+      (window as any).webkitAudioContext)() as AudioContext;
+    masterGain = audioCtx.createGain();
+    masterGain.connect(audioCtx.destination);
+  }
+  return audioCtx;
+}
+
+/** Browsers start audio suspended until the page is interacted with */
+export function resumeAudio(): void {
+  const context = audioContext();
+  if (context.state === 'suspended') {
+    context.resume();
+  }
+}
+
+/** Play a tone for a value, unless the voice limit has been reached */
+export function playTone(
+  value: number,
+  kind: ToneKind,
+  range: ValueRange,
+  settings: ToneSettings,
+): void {
+  if (activeVoices >= settings.maxVoices) return;
+  const context = audioContext();
+  masterGain.gain.value = settings.volume;
+
+  const osc = context.createOscillator();
+  const gainNode = context.createGain();
+  osc.frequency.value = toneFrequency(value, range, settings);
+  osc.type = kind === 'write' ? settings.writeWave : settings.compareWave;
+  osc.connect(gainNode);
+  gainNode.connect(masterGain);
+
+  const now = context.currentTime;
+  gainNode.gain.setValueAtTime(0.0, now);
+  gainNode.gain.linearRampToValueAtTime(TONE_PEAK, now + TONE_ATTACK);
+  gainNode.gain.linearRampToValueAtTime(0.0, now + TONE_DURATION);
+
+  activeVoices++;
+  osc.onended = () => activeVoices--;
+  osc.start(now);
+  osc.stop(now + TONE_STOP);
+}
+
+/**
+ * ===================
+ * Offline Rendering
+ * ===================
+ *
+ * Tones can also be mixed straight into samples, with the same shape and
+ * voice limit as live playback, so a run's sound can be saved as a file. No
+ * audio context is involved, and the same tones always give the same file.
+ */
+
+export const EXPORT_SAMPLE_RATE = 44100;
+
+/** A tone and when it starts, in seconds */
+export interface ToneEvent {
+  time: number;
+  value: number;
+  kind: ToneKind;
+}
+
+/** A waveform `phase` cycles in, from -1 to 1 */
+function waveSample(wave: Waveform, phase: number): number {
+  const t = phase - Math.floor(phase);
+  switch (wave) {
+    case 'sine':
+      return Math.sin(2 * Math.PI * t);
+    case 'triangle':
+      return 1 - 4 * Math.abs(t - 0.5);
+    case 'square':
+      return t < 0.5 ? 1 : -1;
+    case 'sawtooth':
+      return 2 * t - 1;
+  }
+}
+
+/** Loudness of a tone `t` seconds after it starts */
+function toneEnvelope(t: number): number {
+  if (t < TONE_ATTACK) return (TONE_PEAK * t) / TONE_ATTACK;
+  if (t < TONE_DURATION) {
+    return (TONE_PEAK * (TONE_DURATION - t)) / (TONE_DURATION - TONE_ATTACK);
+  }
+  return 0;
+}
+
+/**
+ * Mix tones, in order of start time, into mono samples. A tone that starts
+ * while the most voices are already sounding is dropped, as it is live.
+ */
+export function renderTones(
+  events: ToneEvent[],
+  range: ValueRange,
+  settings: ToneSettings,
+  sampleRate = EXPORT_SAMPLE_RATE,
+): Float32Array {
+  const last = events.length > 0 ? events[events.length - 1].time : 0;
+  const samples = new Float32Array(Math.ceil((last + TONE_STOP) * sampleRate));
+  const toneLength = Math.ceil(TONE_DURATION * sampleRate);
+
+  // Stop times of the tones started so far; the earliest started stop first
+  const stops: number[] = [];
+  let oldest = 0;
+  for (const { time, value, kind } of events) {
+    while (oldest < stops.length && stops[oldest] <= time) oldest++;
+    if (stops.length - oldest >= settings.maxVoices) continue;
+    stops.push(time + TONE_STOP);
+
+    const frequency = toneFrequency(value, range, settings);
+    const wave = kind === 'write' ? settings.writeWave : settings.compareWave;
+    const start = Math.round(time * sampleRate);
+    const end = Math.min(start + toneLength, samples.length);
+    for (let k = start; k < end; k++) {
+      const t = (k - start) / sampleRate;
+      samples[k] +=
+        settings.volume * toneEnvelope(t) * waveSample(wave, frequency * t);
+    }
+  }
+  return samples;
+}
+
+/** Mono samples as a 16-bit PCM WAV file, clipping anything past full scale */
+export function encodeWav(
+  samples: Float32Array,
+  sampleRate = EXPORT_SAMPLE_RATE,
+): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const text = (offset: number, value: string) => {
+    for (let k = 0; k < value.length; k++) {
+      view.setUint8(offset + k, value.charCodeAt(k));
+    }
+  };
+
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, k) => {
+    const clipped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + k * 2, Math.round(clipped * 32767), true);
+  });
+  return buffer;
+}
@@ -0,0 +1,198 @@
+/**
+ * ==========================
+ * Headless Benchmark
+ * ==========================
+ *
+ * Runs the same algorithm code the visualizer plays over a matrix of array
+ * sizes and input distributions, with no rendering, audio or delays, and
+ * writes the totals to CSV and JSON:
+ *
+ *   npm run bench -- --sizes 100,1000 --distributions Random,Sorted
+ */
+import { writeFileSync } from 'node:fs';
+import { inputRestrictions, sortAlgorithms } from './algorithms';
+import { distributions, seededRandom } from './datasets';
+import { measureSort, type OpCounts } from './trace';
+
+interface BenchOptions {
+  algorithms: string[];
+  sizes: number[];
+  distributions: string[];
+  /** Seed for the generated inputs, so runs can be repeated exactly */
+  seed: number;
+  /** Output path without extension; `.csv` and `.json` are added */
+  out: string;
+}
+
+interface BenchResult extends OpCounts {
+  algorithm: string;
+  distribution: string;
+  size: number;
+  timeMs: number;
+}
+
+const usage = `Usage: npm run bench -- [options]
+
+  --algorithms a,b,...     algorithms to run (default: all)
+  --sizes n,m,...          array sizes (default: 100,1000,5000)
+  --distributions a,b,...  input distributions (default: all)
+  --seed n                 seed for generated inputs (default: 1)
+  --out path               output path without extension (default: bench-results)
+
+Algorithms: ${Object.keys(sortAlgorithms).join(', ')}
+Distributions: ${Object.keys(distributions).join(', ')}`;
+
+/** Split a comma separated option, checking each name is one we know */
+function parseNames(value: string, known: string[], kind: string): string[] {
+  const names = value.split(',').map((name) => name.trim());
+  for (const name of names) {
+    if (!known.includes(name)) {
+      throw new Error(`Unknown ${kind}: ${name}`);
+    }
+  }
+  return names;
+}
+
+/** Read command line options, falling back to the full matrix */
+function parseArgs(args: string[]): BenchOptions {
+  const options: BenchOptions = {
+    algorithms: Object.keys(sortAlgorithms),
+    sizes: [100, 1000, 5000],
+    distributions: Object.keys(distributions),
+    seed: 1,
+    out: 'bench-results',
+  };
+
+  for (let i = 0; i < args.length; i += 2) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    switch (flag) {
+      case '--algorithms':
+        options.algorithms = parseNames(
+          value,
+          Object.keys(sortAlgorithms),
+          'algorithm',
+        );
+        break;
+      case '--sizes':
+        options.sizes = value.split(',').map((token) => {
+          const size = Number(token);
+          if (!Number.isInteger(size) || size < 0) {
+            throw new Error(`Invalid size: ${token}`);
+          }
+          return size;
+        });
+        break;
+      case '--distributions':
+        options.distributions = parseNames(
+          value,
+          Object.keys(distributions),
+          'distribution',
+        );
+        break;
+      case '--seed':
+        options.seed = Number(value);
+        if (!Number.isInteger(options.seed)) {
+          throw new Error(`Invalid seed: ${value}`);
+        }
+        break;
+      case '--out':
+        options.out = value;
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+  return options;
+}
+
+/** Run every algorithm over every size and distribution */
+function runBenchmark(options: BenchOptions): BenchResult[] {
+  const results: BenchResult[] = [];
+  for (const size of options.sizes) {
+    for (const distribution of options.distributions) {
+      // Every algorithm sorts the same input for a given size and distribution
+      const input = distributions[distribution](
+        size,
+        seededRandom(options.seed),
+      );
+
+      for (const algorithm of options.algorithms) {
+        const restriction = inputRestrictions[algorithm]?.(input) ?? null;
+        if (restriction) {
+          console.warn(
+            `Skipping ${algorithm} on ${distribution}: ${restriction}`,
+          );
+          continue;
+        }
+
+        const start = performance.now();
+        const counts = measureSort(sortAlgorithms[algorithm], input.slice());
+        const timeMs = performance.now() - start;
+
+        results.push({ algorithm, distribution, size, ...counts, timeMs });
+        console.log(
+          `${algorithm} / ${distribution} / n=${size}: ` +
+            `${counts.comparisons} comparisons, ` +
+            `${counts.arrayAccesses} accesses, ${timeMs.toFixed(1)} ms`,
+        );
+      }
+    }
+  }
+  return results;
+}
+
+/** Format results as CSV, one row per algorithm, distribution and size */
+function toCsv(results: BenchResult[]): string {
+  const columns: (keyof BenchResult)[] = [
+    'algorithm',
+    'distribution',
+    'size',
+    'comparisons',
+    'arrayAccesses',
+    'reads',
+    'writes',
+    'swaps',
+    'depth',
+    'peakAuxiliary',
+    'peakRecursion',
+    'timeMs',
+  ];
+  const rows = results.map((result) =>
+    columns
+      .map((column) =>
+        column === 'timeMs' ? result.timeMs.toFixed(3) : result[column],
+      )
+      .join(','),
+  );
+  return [columns.join(','), ...rows].join('\n') + '\n';
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(usage);
+    return;
+  }
+
+  let options: BenchOptions;
+  try {
+    options = parseArgs(args);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${usage}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const results = runBenchmark(options);
+  writeFileSync(`${options.out}.csv`, toCsv(results));
+  writeFileSync(`${options.out}.json`, JSON.stringify(results, null, 2) + '\n');
+  console.log(
+    `Wrote ${results.length} results to ${options.out}.csv and ${options.out}.json`,
+  );
+}
+
+main();
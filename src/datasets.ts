@@ -0,0 +1,200 @@
+/**
+ * ======================
+ * Input Distributions
+ * ======================
+ */
+
+/** Largest array the visualizer will generate or import */
+export const MAX_ARRAY_SIZE = 20000;
+
+/** Build an array of n integer values, drawing randomness from `random` */
+export type Distribution = (n: number, random?: () => number) => number[];
+
+/** Deterministic random source (mulberry32), so inputs can be reproduced */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** The ascending run 1..n */
+function ascending(n: number): number[] {
+  return Array.from({ length: n }, (_, idx) => idx + 1);
+}
+
+/** Fisher-Yates shuffle in place */
+function shuffle(values: number[], random: () => number): number[] {
+  for (let i = values.length - 1; i > 0; i--) {
+    const randIndex = Math.floor(random() * (i + 1));
+    [values[i], values[randIndex]] = [values[randIndex], values[i]];
+  }
+  return values;
+}
+
+/** Random integer in 1..max */
+function randomInt(max: number, random: () => number): number {
+  return 1 + Math.floor(random() * max);
+}
+
+/** Shuffled array of unique integers from 1..n */
+export function randomPermutation(n: number, random = Math.random): number[] {
+  return shuffle(ascending(n), random);
+}
+
+/** Already sorted 1..n */
+export function sortedValues(n: number): number[] {
+  return ascending(n);
+}
+
+/** Sorted from n down to 1 */
+export function reversedValues(n: number): number[] {
+  return ascending(n).reverse();
+}
+
+/** Sorted, then k = n/20 random pairs swapped */
+export function nearlySortedValues(n: number, random = Math.random): number[] {
+  const values = ascending(n);
+  if (n < 2) return values;
+  const swaps = Math.max(1, Math.round(n / 20));
+  for (let k = 0; k < swaps; k++) {
+    const i = Math.floor(random() * n);
+    const j = Math.floor(random() * n);
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+  return values;
+}
+
+/** Only four distinct values, spread across 1..n */
+export function fewUniqueValues(n: number, random = Math.random): number[] {
+  const distinct = 4;
+  return Array.from({ length: n }, () =>
+    Math.ceil((randomInt(distinct, random) * n) / distinct),
+  );
+}
+
+/** Every value appears around eight times */
+export function manyDuplicateValues(n: number, random = Math.random): number[] {
+  const distinct = Math.max(1, Math.floor(n / 8));
+  return Array.from({ length: n }, () =>
+    Math.ceil((randomInt(distinct, random) * n) / distinct),
+  );
+}
+
+/** Four ascending ramps back to back */
+export function sawtoothValues(n: number): number[] {
+  const teeth = 4;
+  const toothLength = Math.ceil(n / teeth);
+  return Array.from({ length: n }, (_, idx) =>
+    Math.ceil((((idx % toothLength) + 1) * n) / toothLength),
+  );
+}
+
+/** Rises to a peak in the middle, then falls again */
+export function organPipeValues(n: number): number[] {
+  const half = n / 2;
+  return Array.from({ length: n }, (_, idx) =>
+    Math.max(1, Math.round(n - (Math.abs(idx + 0.5 - half) * n) / half)),
+  );
+}
+
+/** Uniform picks from 1..n, so values may repeat or be missing */
+export function randomWithReplacement(
+  n: number,
+  random = Math.random,
+): number[] {
+  return Array.from({ length: n }, () => randomInt(n, random));
+}
+
+/** Values clustered around n/2 following a bell curve */
+export function gaussianValues(n: number, random = Math.random): number[] {
+  return Array.from({ length: n }, () => {
+    // Box-Muller transform
+    const u = 1 - random();
+    const v = random();
+    const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    return Math.min(n, Math.max(1, Math.round(n / 2 + (z * n) / 6)));
+  });
+}
+
+/** Sorted, except the smallest value has been moved to the very end */
+export function sortedWithOutlierValues(n: number): number[] {
+  const values = ascending(n);
+  if (n > 0) values.push(values.shift()!);
+  return values;
+}
+
+/** Eight keys, each repeated equally often and shuffled, to show stability */
+export function equalKeyValues(n: number, random = Math.random): number[] {
+  const distinct = Math.min(8, n);
+  const values = Array.from({ length: n }, (_, idx) =>
+    Math.ceil((((idx % distinct) + 1) * n) / distinct),
+  );
+  return shuffle(values, random);
+}
+
+/** Every available distribution, keyed by its display name */
+export const distributions: Record<string, Distribution> = {
+  Random: randomPermutation,
+  Sorted: sortedValues,
+  Reversed: reversedValues,
+  'Nearly Sorted': nearlySortedValues,
+  'Few Unique': fewUniqueValues,
+  'Many Duplicates': manyDuplicateValues,
+  Sawtooth: sawtoothValues,
+  'Organ Pipe': organPipeValues,
+  'Random With Replacement': randomWithReplacement,
+  Gaussian: gaussianValues,
+  'Sorted With Outlier': sortedWithOutlierValues,
+  'Equal Keys': equalKeyValues,
+};
+
+/**
+ * ==================
+ * Custom Datasets
+ * ==================
+ */
+
+/**
+ * Parse user-supplied values, either a JSON array of numbers or numbers
+ * separated by commas, semicolons or whitespace (which covers CSV files).
+ * Throws an Error describing the first problem found.
+ */
+export function parseDataset(text: string): number[] {
+  const trimmed = text.trim();
+  let values: unknown[];
+
+  if (trimmed.startsWith('[')) {
+    try {
+      values = JSON.parse(trimmed);
+    } catch (err) {
+      throw new Error(`Invalid JSON: ${(err as Error).message}`);
+    }
+    if (!Array.isArray(values)) {
+      throw new Error('JSON input must be an array of numbers');
+    }
+  } else {
+    values = trimmed.split(/[\s,;]+/).filter((token) => token !== '');
+  }
+
+  if (values.length === 0) {
+    throw new Error('No values found');
+  }
+  if (values.length > MAX_ARRAY_SIZE) {
+    throw new Error(
+      `Too many values (${values.length}), the limit is ${MAX_ARRAY_SIZE}`,
+    );
+  }
+
+  return values.map((raw, idx) => {
+    const value = typeof raw === 'string' ? Number(raw) : raw;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`Value ${idx + 1} is not a number: ${String(raw)}`);
+    }
+    return value;
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * =====================
+ * Growth Curve Fitting
+ * =====================
+ *
+ * Measures how an algorithm's work grows with the array size and fits the
+ * counts to the usual growth classes, so a stated time complexity can be
+ * checked against what the algorithm actually does.
+ */
+import { inputRestrictions } from './algorithms';
+import { distributions, seededRandom } from './datasets';
+import {
+  measureSortInSlices,
+  type OpCounts,
+  type SortAlgorithm,
+} from './trace';
+
+/** A growth class and the shape of its curve */
+export interface GrowthClass {
+  name: string;
+  curve: (n: number) => number;
+}
+
+export const growthClasses: GrowthClass[] = [
+  { name: 'n', curve: (n) => n },
+  { name: 'n log n', curve: (n) => n * Math.log2(Math.max(n, 2)) },
+  { name: 'n²', curve: (n) => n * n },
+];
+
+/** A measured count at one array size */
+export interface GrowthPoint {
+  n: number;
+  count: number;
+}
+
+/** A growth class scaled to best match a set of points */
+export interface GrowthFit {
+  growth: GrowthClass;
+  /** Multiplier on the class's curve, the constant factor */
+  scale: number;
+  /** Root mean square of the relative error over the points */
+  error: number;
+}
+
+/** Counts from one run of the algorithm */
+export interface GrowthSample {
+  distribution: string;
+  n: number;
+  counts: OpCounts;
+}
+
+/**
+ * Scale `growth` to the points, minimizing the relative rather than absolute
+ * error so the small sizes count as much as the large ones
+ */
+function fitClass(growth: GrowthClass, points: GrowthPoint[]): GrowthFit {
+  const ratios = points.map(({ n, count }) => growth.curve(n) / count);
+  const sum = ratios.reduce((total, r) => total + r, 0);
+  const sumSquares = ratios.reduce((total, r) => total + r * r, 0);
+  const scale = sum / sumSquares;
+  const error = Math.sqrt(
+    ratios.reduce((total, r) => total + (1 - scale * r) ** 2, 0) /
+      ratios.length,
+  );
+  return { growth, scale, error };
+}
+
+/**
+ * Fit every growth class to the points, best fit first. Points with a count
+ * of zero are left out, and there is no fit at all without two of the rest.
+ */
+export function fitGrowth(points: GrowthPoint[]): GrowthFit[] {
+  const measured = points.filter(({ count }) => count > 0);
+  if (measured.length < 2) return [];
+  return growthClasses
+    .map((growth) => fitClass(growth, measured))
+    .sort((a, b) => a.error - b.error);
+}
+
+/** The largest count at each size, the worst case over every input */
+export function worstCase(
+  samples: GrowthSample[],
+  metric: keyof OpCounts,
+): GrowthPoint[] {
+  const worst = new Map<number, number>();
+  for (const { n, counts } of samples) {
+    worst.set(n, Math.max(worst.get(n) ?? 0, counts[metric]));
+  }
+  return [...worst].map(([n, count]) => ({ n, count }));
+}
+
+/** Operations measured between chances for a caller to give way */
+const MEASURE_SLICE = 250000;
+
+/**
+ * Run `algorithm` once over each size and distribution, yielding a sample
+ * after every run and nothing during long ones, so a caller can report
+ * progress or give way as it goes. Inputs come from a fixed seed, and ones
+ * the algorithm cannot sort are skipped.
+ */
+export function* measureGrowth(
+  name: string,
+  algorithm: SortAlgorithm,
+  sizes: number[],
+  distributionNames: string[],
+): Generator<GrowthSample | undefined> {
+  for (const distribution of distributionNames) {
+    for (const n of sizes) {
+      const input = distributions[distribution](n, seededRandom(1));
+      if (inputRestrictions[name]?.(input)) continue;
+      const counts = yield* measureSortInSlices(
+        algorithm,
+        input,
+        MEASURE_SLICE,
+      );
+      yield { distribution, n, counts };
+    }
+  }
+}
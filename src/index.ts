@@ -1,6 +1,76 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-import GUI from 'lil-gui';
+import GUI, { type Controller } from 'lil-gui';
+import {
+  gapSequences,
+  inputRestrictions,
+  mergeSort,
+  mergeVariants,
+  partitionSchemes,
+  pivotChoices,
+  quickSort,
+  radixBases,
+  radixModes,
+  radixSort,
+  shellSort,
+  sortAlgorithms,
+  type GapSequence,
+  type MergeVariant,
+  type PartitionScheme,
+  type PivotChoice,
+  type RadixBase,
+  type RadixMode,
+} from './algorithms';
+import {
+  encodeWav,
+  EXPORT_SAMPLE_RATE,
+  playTone,
+  renderTones,
+  resumeAudio,
+  scales,
+  toneKind,
+  valueRange,
+  waveforms,
+  type ScaleName,
+  type ToneEvent,
+  type ToneKind,
+  type ValueRange,
+  type Waveform,
+} from './audio';
+import {
+  distributions,
+  MAX_ARRAY_SIZE,
+  parseDataset,
+  seededRandom,
+} from './datasets';
+import {
+  fitGrowth,
+  growthClasses,
+  measureGrowth,
+  worstCase,
+  type GrowthFit,
+  type GrowthPoint,
+  type GrowthSample,
+} from './growth';
+import {
+  createTrace,
+  currentLine,
+  isTraceComplete,
+  lastOp,
+  stepBack,
+  stepForward,
+  UNKNOWN_TAG,
+  type SortAlgorithm,
+  type SortOp,
+  type Trace,
+  type Vars,
+} from './trace';
+import {
+  describeVerification,
+  isCorrect,
+  verifyTrace,
+  type Verification,
+} from './verify';
 
 // Global variables
 let scene: THREE.Scene;
@@ -9,26 +79,103 @@ let renderer: THREE.WebGLRenderer;
 let orbitControls: OrbitControls;
 let gui: GUI;
 
-// Data set and 3D blocks
-let dataset: number[] = [];
-let blocks: THREE.Mesh[] = [];
+/** One algorithm sorting its own copy of the dataset in its own row of blocks */
+interface Lane {
+  algorithm: string;
+  /** Displayed values, updated in place as the lane's trace plays */
+  values: number[];
+  mesh: THREE.InstancedMesh;
+  /** Auxiliary memory (counters, buckets, buffers), rows of slots behind */
+  auxMesh: THREE.InstancedMesh;
+  /** Lines joining the pairs compared by a sorting network layer */
+  links: THREE.LineSegments;
+  /** Name labels floating over the blocks the index variables point at */
+  labels: THREE.Group;
+  /** Bracket over the innermost sub-range the algorithm has entered */
+  bracket: THREE.Group;
+  trace: Trace | null;
+  /** Work done by the furthest point of the trace recorded so far */
+  furthestCost: number;
+  highlightedIndexes: number[];
+  /** Auxiliary slots highlighted, such as the buffer entries being compared */
+  highlightedSlots: number[];
+  /** Run clock reading (ms) when this lane's trace completed */
+  finishElapsed: number | null;
+  /** Check of the lane's output, made once its trace completed */
+  verification: Verification | null;
+  /** Identity colour of every element, indexed by its original position */
+  tints: number[];
+}
+
+// Rows of auxiliary memory drawn behind each lane, each as long as the array
+const AUX_ROWS = 2;
+
+// Data set shared by every lane, and the lanes sorting it
+let originalDataset: number[] = [];
+let lanes: Lane[] = [];
+let framedExtent = '';
+
+// Value-to-height scaling for the current dataset
+let heightScale = 1;
+let minBlockHeight = 1;
+// Height of a variable's label, in proportion to the width of the array
+let labelHeight = 1;
+// Distance between neighbouring blocks, and the extent of the tallest ones
+let blockSpacing = 1;
+let laneTop = 0;
+let laneBottom = 0;
 
 // Sorting states
 let isSorting = false;
 let interruptRequested = false;
-let arrayAccessCount = 0;
-let comparisonCount = 0;
-let startTimestamp = 0;
-let finishTimestamp: number | null = null;
-
-// Audio
-const audioCtx = new (window.AudioContext ||
-  (window as any).webkitAudioContext)();
+// The run being played, which can take a moment to stop once asked to
+let playback: Promise<void> = Promise.resolve();
+let timelineController: Controller;
+// Bumped whenever a run is created or discarded, so playback can tell
+let runId = 0;
+
+// Run clock, which only ticks while a trace is being played
+let elapsedBeforePause = 0;
+let resumeTimestamp: number | null = null;
+
+// Smallest and largest values of the dataset, which the tones span
+let toneRange: ValueRange = { min: 0, max: 0 };
+
+// Scratch color for writing highlight attributes
+const highlightColor = new THREE.Color();
+
+// Sorting network comparator lines, and scratch space for placing them (and
+// variable labels) over blocks
+const linkMaterial = new THREE.LineBasicMaterial({ color: 0xffff00 });
+const linkMatrix = new THREE.Matrix4();
+const linkEnd = new THREE.Vector3();
+
+// Block picked in the heap tree view or the scene, labelled in both
+let selectedBlock: number | null = null;
+const pickRaycaster = new THREE.Raycaster();
+const pickPointer = new THREE.Vector2();
+const pickPlane = new THREE.Plane();
+
+// Recursion brackets: a bar over the sub-range with a leg at either end
+const bracketGeometry = new THREE.BoxGeometry(1, 1, 1);
+const bracketMaterial = new THREE.MeshBasicMaterial({
+  color: 0x66ccff,
+  transparent: true,
+  opacity: 0.35,
+  depthWrite: false,
+});
+
+// Label textures, drawn once for each variable name
+const labelTextures = new Map<string, THREE.CanvasTexture>();
 
 // Materials map and currently used material
 const materials: Record<string, THREE.ShaderMaterial> = {};
 let activeMaterial: THREE.ShaderMaterial;
 
+// Pseudo-code lines shown in the info box, and the one lit up
+let pseudoLines: HTMLElement[] = [];
+let activePseudoLine: HTMLElement | null = null;
+
 // Timing delay (controls sort speed)
 let interval = 0;
 
@@ -40,10 +187,41 @@ const complexityMap: Record<string, { average: string; space: string }> = {
   'Merge Sort': { average: 'O(n log n)', space: 'O(n)' },
   'Heap Sort': { average: 'O(n log n)', space: 'O(1)' },
   'Radix Sort': { average: 'O(nk)', space: 'O(n+k)' },
-  'Shell Sort': { average: 'O(n log n)', space: 'O(1)' },
+  'Shell Sort': { average: 'O(n²)', space: 'O(1)' },
   'Bubble Sort': { average: 'O(n²)', space: 'O(1)' },
   'Cocktail Shaker Sort': { average: 'O(n²)', space: 'O(1)' },
   'Gnome Sort': { average: 'O(n²)', space: 'O(1)' },
+  'Tim Sort': { average: 'O(n log n)', space: 'O(n)' },
+  'Intro Sort': { average: 'O(n log n)', space: 'O(log n)' },
+  'Pattern-Defeating Quick Sort': { average: 'O(n log n)', space: 'O(log n)' },
+  'Bitonic Sort': { average: 'O(n log² n)', space: 'O(1)' },
+  'Odd-Even Merge Sort': { average: 'O(n log² n)', space: 'O(1)' },
+  'Odd-Even Transposition Sort': { average: 'O(n²)', space: 'O(1)' },
+  'Counting Sort': { average: 'O(n+k)', space: 'O(n+k)' },
+  'Bucket Sort': { average: 'O(n)', space: 'O(n)' },
+  'Pigeonhole Sort': { average: 'O(n+k)', space: 'O(k)' },
+  'Flash Sort': { average: 'O(n)', space: 'O(n)' },
+};
+
+// Shell Sort's running time depends on its gaps (proven worst cases, where known)
+const gapComplexity: Record<GapSequence, string> = {
+  Shell: 'O(n²)',
+  Hibbard: 'O(n^(3/2))',
+  Knuth: 'O(n^(3/2))',
+  Sedgewick: 'O(n^(4/3))',
+  Tokuda: 'Unknown (≈ n^1.25 measured)',
+  Ciura: 'Unknown (≈ n^1.25 measured)',
+};
+
+// Merge Sort variants trade a buffer for extra work
+const mergeComplexity: Record<
+  MergeVariant,
+  { average: string; space: string }
+> = {
+  'Top-Down': { average: 'O(n log n)', space: 'O(n)' },
+  'Bottom-Up': { average: 'O(n log n)', space: 'O(n)' },
+  Natural: { average: 'O(n log n), O(n) if sorted', space: 'O(n)' },
+  'In-Place': { average: 'O(n log² n)', space: 'O(log n) stack, no buffer' },
 };
 
 // Pseudo-code for each sort
@@ -52,22 +230,87 @@ const pseudoMap: Record<string, string> = {
     'for i in 0..n-1:\n  minIndex = i\n  for j in i+1..n:\n    if A[j] < A[minIndex]: minIndex = j\n  swap A[i], A[minIndex]',
   'Insertion Sort':
     'for i in 1..n-1:\n  key = A[i]\n  j = i-1\n  while j>=0 and A[j] > key:\n    A[j+1] = A[j]\n    j--\n  A[j+1] = key',
-  'Quick Sort':
-    'quickSort(A, low, high):\n  if low < high:\n    pi = partition(A, low, high)\n    quickSort(A, low, pi-1)\n    quickSort(A, pi+1, high)',
-  'Merge Sort':
-    'mergeSort(A, l, r):\n  if l < r:\n    m = (l + r)//2\n    mergeSort(A, l, m)\n    mergeSort(A, m+1, r)\n    merge(A, l, m, r)',
   'Heap Sort':
     'heapSort(A):\n  buildMaxHeap(A)\n  for i=n-1..1:\n    swap A[0], A[i]\n    heapify(A, 0, i)',
-  'Radix Sort':
-    'radixSort(A):\n  maxVal = max(A)\n  exp = 1\n  while maxVal/exp > 0:\n    countingSort(A, exp)\n    exp *= 10',
-  'Shell Sort':
-    'shellSort(A):\n  gap = n/2\n  while gap > 0:\n    for i=gap..n-1:\n      temp = A[i]\n      j = i\n      while j>=gap and A[j-gap]>temp:\n        A[j] = A[j-gap]\n        j -= gap\n      A[j] = temp\n    gap /= 2',
   'Bubble Sort':
     'bubbleSort(A):\n  for i=0..n-1:\n    for j=0..n-i-2:\n      if A[j]>A[j+1]: swap A[j], A[j+1]',
   'Cocktail Shaker Sort':
     'cocktailShakerSort(A):\n  swapped = true\n  start = 0\n  end = n-1\n  while swapped:\n    swapped = false\n    for i=start..end-1:\n      if A[i] > A[i+1]: swap\n    end--\n    for i=end-1..start:\n      if A[i] > A[i+1]: swap\n    start++',
   'Gnome Sort':
     'gnomeSort(A):\n  i = 0\n  while i < n:\n    if i==0 or A[i] >= A[i-1]: i++\n    else:\n      swap A[i], A[i-1]\n      i--',
+  'Tim Sort':
+    'timSort(A):\n  minRun = minRunLength(n)\n  for each run R found left to right:\n    if R is descending: reverse R\n    if |R| < minRun: extend R with insertion sort\n    push R on the run stack\n    while the top runs break the length rules:\n      merge two of them (galloping when one side keeps winning)\n  merge the remaining runs',
+  'Intro Sort':
+    'introSort(A):\n  sort(A, 0, n-1, 2*log2(n))\n  insertionSort(A)\n\nsort(A, low, high, depth):\n  if high-low < 16: return\n  if depth == 0:\n    heapSort(A, low, high)\n    return\n  pi = partition(A, low, high)  // median of 3\n  sort(A, low, pi-1, depth-1)\n  sort(A, pi+1, high, depth-1)',
+  'Pattern-Defeating Quick Sort':
+    'pdqSort(A, begin, end, bad):\n  loop:\n    if end-begin < 24:\n      insertionSort(A, begin, end)\n      return\n    choose pivot (median of 3, or ninther)\n    if pivot == previous pivot:\n      partition equal keys left, skip them\n    pi, noSwaps = partition(A, begin, end)\n    if the split is very unbalanced:\n      if --bad == 0: heapSort(A, begin, end); return\n      swap a few elements to break patterns\n    else if noSwaps and both sides nearly sorted:\n      return  // partial insertion sort\n    pdqSort(A, begin, pi, bad)\n    begin = pi + 1',
+  'Bitonic Sort':
+    'bitonicSort(A):  // n padded to a power of 2\n  for block = 2, 4, 8, ..., n:\n    for dist = block/2, block/4, ..., 1:\n      in parallel for every i:\n        j = (dist == block/2) ? i xor (block-1) : i xor dist\n        if j > i and A[i] > A[j]: swap A[i], A[j]',
+  'Odd-Even Merge Sort':
+    'oddEvenMergeSort(A):  // n padded to a power of 2\n  for p = 1, 2, 4, ..., n/2:\n    for k = p, p/2, ..., 1:\n      in parallel for j = k mod p .. n-1-k step 2k,\n                      i = 0 .. k-1:\n        if (i+j) div 2p == (i+j+k) div 2p:\n          compare-swap A[i+j], A[i+j+k]',
+  'Odd-Even Transposition Sort':
+    'oddEvenTranspositionSort(A):\n  for round = 0..n-1:\n    in parallel for i = round mod 2, +2, ...:\n      if A[i] > A[i+1]: swap A[i], A[i+1]',
+  'Counting Sort':
+    'countingSort(A):\n  k = max(A) - min(A) + 1\n  for x in A: count[x - min]++\n  pos = 0\n  for key = 0..k-1:\n    start[key] = pos\n    pos += count[key]\n  for x in A:\n    out[start[x - min]++] = x\n  A = out',
+  'Bucket Sort':
+    'bucketSort(A):\n  buckets = n/8 empty lists\n  for x in A:\n    b = (x - min) / (max - min) * #buckets\n    append x to bucket b\n  A = concatenation of the buckets\n  for each bucket range [l..h]:\n    insertionSort(A, l, h)',
+  'Pigeonhole Sort':
+    'pigeonholeSort(A):\n  holes = max(A) - min(A) + 1 counters\n  for x in A: holes[x - min]++\n  i = 0\n  for h = 0..holes-1:\n    repeat holes[h] times:\n      A[i++] = min + h',
+  'Flash Sort':
+    'flashSort(A):\n  m = 0.43 n classes\n  class(x) = (m-1)(x - min) / (max - min)\n  count the elements of each class\n  start[c] = first slot of class c\n  for each class c, for each slot s of c:\n    while A[s] belongs to a class d != c:\n      swap A[s], A[next[d]++]\n  insertionSort(A)',
+};
+
+// Recursive call each algorithm's sub-ranges are shown as on the call stack
+const frameCalls: Record<string, string> = {
+  'Quick Sort': 'quickSort',
+  'Merge Sort': 'mergeSort',
+  'Intro Sort': 'sort',
+  'Pattern-Defeating Quick Sort': 'pdqSort',
+  'Radix Sort': 'msd',
+};
+
+// Innermost frames listed on the call stack; the rest are only counted
+const CALL_STACK_ROWS = 12;
+
+// Quick Sort pseudo-code is assembled from the chosen pivot and partition
+const pivotPseudo: Record<PivotChoice, string> = {
+  Last: 'high',
+  First: 'low',
+  Middle: '(low + high)//2',
+  Random: 'random(low..high)',
+  'Median of Three': 'median of low, (low + high)//2, high',
+  Ninther: 'median of three medians of three',
+};
+
+const partitionPseudo: Record<PartitionScheme, string> = {
+  Lomuto:
+    '    swap A[p], A[high]\n    pi = partition(A, low, high)\n    quickSort(A, low, pi-1)\n    quickSort(A, pi+1, high)\n\npartition(A, low, high):\n  pivot = A[high]\n  i = low-1\n  for j = low..high-1:\n    if A[j] < pivot:\n      i++\n      swap A[i], A[j]\n  swap A[i+1], A[high]\n  return i+1',
+  Hoare:
+    '    swap A[p], A[low]\n    j = partition(A, low, high)\n    quickSort(A, low, j)\n    quickSort(A, j+1, high)\n\npartition(A, low, high):\n  pivot = A[low]\n  i = low-1, j = high+1\n  loop:\n    do i++ while A[i] < pivot\n    do j-- while A[j] > pivot\n    if i >= j: return j\n    swap A[i], A[j]',
+  'Three-Way':
+    '    swap A[p], A[low]\n    lt, gt = partition(A, low, high)\n    quickSort(A, low, lt-1)\n    quickSort(A, gt+1, high)\n\npartition(A, low, high):  // Dutch National Flag\n  pivot = A[low]\n  lt = low, i = low+1, gt = high\n  while i <= gt:\n    if A[i] < pivot: swap A[lt++], A[i++]\n    else if A[i] > pivot: swap A[i], A[gt--]\n    else: i++\n  return lt, gt',
+};
+
+// How each Shell Sort gap sequence is generated
+const gapPseudo: Record<GapSequence, string> = {
+  Shell: 'n/2, n/4, ..., 1',
+  Hibbard: '2^k - 1: ..., 15, 7, 3, 1',
+  Knuth: '(3^k - 1)/2 below n/3: ..., 40, 13, 4, 1',
+  Sedgewick: '4^k + 3*2^(k-1) + 1: ..., 77, 23, 8, 1',
+  Tokuda: 'ceil((9*(9/4)^k - 4)/5): ..., 46, 20, 9, 4, 1',
+  Ciura: '..., 701, 301, 132, 57, 23, 10, 4, 1 (then x2.25)',
+};
+
+// Merge Sort pseudo-code for each variant
+const mergePseudo: Record<MergeVariant, string> = {
+  'Top-Down':
+    'mergeSort(A, l, r):\n  if l < r:\n    m = (l + r)//2\n    mergeSort(A, l, m)\n    mergeSort(A, m+1, r)\n    merge(A, l, m, r)  // via buffers L, R',
+  'Bottom-Up':
+    'mergeSort(A):\n  width = 1\n  while width < n:\n    for l = 0, 2*width, 4*width, ...:\n      m = l + width - 1\n      r = min(l + 2*width, n) - 1\n      if m < r: merge(A, l, m, r)\n    width *= 2',
+  Natural:
+    'mergeSort(A):\n  runs = starts of the ascending runs in A\n  while more than one run:\n    for each pair of neighbouring runs:\n      merge(A, run1, run2)\n    runs = every other start',
+  'In-Place':
+    'mergeSort(A, l, r):\n  if l < r:\n    m = (l + r)//2\n    mergeSort(A, l, m)\n    mergeSort(A, m+1, r)\n    inPlaceMerge(A, l, m, r)\n\ninPlaceMerge(A, l, m, r):  // no buffer\n  x = middle of the longer run\n  y = where x belongs in the other run (binary search)\n  rotate the block between x and y into place\n  inPlaceMerge both halves around x',
 };
 
 // Configuration for lil-gui
@@ -75,19 +318,63 @@ const config = {
   chosenAlgo: 'Quick Sort',
   chosenShader: 'Phong Shader',
   speed: 50,
+  arraySize: 100,
+  distribution: 'Random',
+  showIdentity: false,
+  quickPivot: 'Last' as PivotChoice,
+  quickPartition: 'Lomuto' as PartitionScheme,
+  shellGaps: 'Shell' as GapSequence,
+  mergeVariant: 'Top-Down' as MergeVariant,
+  radixBase: 10 as RadixBase,
+  radixMode: 'LSD' as RadixMode,
+  raceMode: false,
+  racer1: 'Quick Sort',
+  racer2: 'Merge Sort',
+  racer3: 'None',
+  racer4: 'None',
+  customData: '',
+  loadCustomData: () => importDataset(config.customData),
+  loadDataFile: () => chooseDataFile(),
+  statusMessage: '',
   beginSort: () => startSorter(),
+  analyzeComplexity: () => analyzeComplexity(),
   haltSort: () => stopSorter(),
+  pauseSort: () => pauseSorter(),
+  resumeSort: () => resumeSorter(),
+  resetSort: () => resetSorter(),
+  stepForward: () => stepSorterForward(),
+  stepBack: () => stepSorterBack(),
+  timeline: 0,
   randomizeDataset: () => {
     if (isSorting) return;
     randomizeData();
-    createBlocks();
   },
   arrayAccesses: 0,
+  reads: 0,
+  writes: 0,
+  swaps: 0,
   comparisons: 0,
+  comparisonBound: 0,
+  depth: 0,
+  peakMemory: '0',
+  recursionDepth: '0 / 0',
   elapsedTime: '0.0s',
+  phase: '',
+  gap: '',
   timeComplexityAverage: '',
+  measuredComplexity: '',
   spaceComplexity: '',
   backgroundColor: '#000000',
+  volume: 1,
+  muted: false,
+  compareWave: 'sine' as Waveform,
+  writeWave: 'sine' as Waveform,
+  scale: 'Continuous' as ScaleName,
+  lowPitch: 100,
+  highPitch: 1100,
+  maxVoices: 16,
+  exportTempo: 60,
+  exportAudio: () => exportAudio(),
 };
 
 /**
@@ -121,11 +408,7 @@ function initializeScene(): void {
   scene.add(ambientLight);
 
   // Audio trigger
-  document.body.addEventListener('click', () => {
-    if (audioCtx.state === 'suspended') {
-      audioCtx.resume();
-    }
-  });
+  document.body.addEventListener('click', () => resumeAudio());
 }
 
 function initializeCameraControls(): void {
@@ -133,829 +416,1896 @@ function initializeCameraControls(): void {
   orbitControls.enableDamping = true;
 }
 
-/**
- * Generate a shuffled array of unique integers from 1..100
- */
+/** Generate a new array from the chosen size and input distribution */
 function randomizeData(): void {
-  const arrayRange = Array.from({ length: 100 }, (_, idx) => idx + 1);
-  for (let i = arrayRange.length - 1; i > 0; i--) {
-    const randIndex = Math.floor(Math.random() * (i + 1));
-    [arrayRange[i], arrayRange[randIndex]] = [
-      arrayRange[randIndex],
-      arrayRange[i],
-    ];
+  loadDataset(distributions[config.distribution](config.arraySize));
+}
+
+/** Replace the dataset, remembering it so Reset can restore it later */
+function loadDataset(values: number[]): void {
+  originalDataset = values.slice();
+  toneRange = valueRange(values);
+  createLanes();
+  clearRun();
+  sortBlocked();
+}
+
+/** Load user-supplied values, reporting any problem in the status line */
+function importDataset(text: string): void {
+  if (isSorting) {
+    config.statusMessage = 'Stop sorting before loading new data';
+    return;
+  }
+  try {
+    const values = parseDataset(text);
+    config.arraySize = values.length;
+    loadDataset(values);
+    if (!config.statusMessage) {
+      config.statusMessage = `Loaded ${values.length} values`;
+    }
+  } catch (err) {
+    config.statusMessage = (err as Error).message;
   }
-  dataset = arrayRange;
+}
+
+/** Let the user pick a CSV or JSON file of values to load */
+function chooseDataFile(): void {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = '.csv,.json,.txt,text/csv,application/json,text/plain';
+  input.addEventListener('change', async () => {
+    const file = input.files?.[0];
+    if (!file) return;
+    importDataset(await file.text());
+  });
+  input.click();
+}
+
+/** The race line-up in race mode, otherwise just the chosen algorithm */
+function laneAlgorithms(): string[] {
+  if (!config.raceMode) return [config.chosenAlgo];
+  const racers = [config.racer1, config.racer2, config.racer3, config.racer4];
+  const chosen = racers.filter((name) => name !== 'None');
+  return chosen.length > 0 ? chosen : [config.chosenAlgo];
+}
+
+/** Explain (and return true) if the current line-up cannot sort the data */
+function sortBlocked(): boolean {
+  const algorithms = laneAlgorithms();
+  let reason: string | null = null;
+  if (config.raceMode && algorithms.length < 2) {
+    reason = 'Pick at least two algorithms to race';
+  }
+  for (const algorithm of algorithms) {
+    reason ??= inputRestrictions[algorithm]?.(originalDataset) ?? null;
+  }
+  config.statusMessage = reason ?? '';
+  return reason !== null;
 }
 
 /**
- * Create the 3D block representation for the dataset
+ * Create a row of blocks for every lane, each starting from a fresh copy of
+ * the dataset. Rows are stacked top to bottom in line-up order.
  */
-function createBlocks(): void {
+function createLanes(): void {
   // Clear old blocks
-  blocks.forEach((block) => {
-    scene.remove(block);
-    block.geometry.dispose();
-    if (Array.isArray(block.material)) {
-      block.material.forEach((mat) => mat.dispose());
-    } else {
-      block.material.dispose();
-    }
+  lanes.forEach(({ mesh, auxMesh, links, labels, bracket }) => {
+    scene.remove(mesh, auxMesh, links, labels, bracket);
+    [mesh, auxMesh].forEach((blocks) => {
+      blocks.geometry.dispose();
+      blocks.dispose();
+    });
+    links.geometry.dispose();
+    labels.children.forEach((label) =>
+      (label as THREE.Sprite).material.dispose(),
+    );
   });
-  blocks = [];
 
   const blockWidth = 4;
   const gap = 1;
-  const startX =
-    50 + -((blockWidth + gap) * dataset.length) / 2 + (blockWidth + gap) / 2;
-
-  for (let i = 0; i < dataset.length; i++) {
-    const geometry = new THREE.BoxGeometry(blockWidth, dataset[i], blockWidth);
-    const material = activeMaterial.clone();
-    const block = new THREE.Mesh(geometry, material);
-    block.position.x = startX + i * (blockWidth + gap);
-    block.position.y = dataset[i] / 2;
-    scene.add(block);
-    blocks.push(block);
+  const count = originalDataset.length;
+
+  // The tallest block is as high as the array is long, like the default 1..n
+  const maxMagnitude = Math.max(...originalDataset.map(Math.abs)) || 1;
+  heightScale = count / maxMagnitude;
+  minBlockHeight = Math.min(1, count * 0.005);
+  const heights = originalDataset.map(valueToHeight);
+  const bottom = Math.min(0, ...heights);
+  const top = Math.max(0, ...heights);
+  const rowSpacing = (top - bottom) * 1.25;
+  labelHeight = Math.max(2, ((blockWidth + gap) * count) / 60);
+  blockSpacing = blockWidth + gap;
+  laneTop = top;
+  laneBottom = bottom;
+  config.comparisonBound = comparisonLowerBound(count);
+  selectedBlock = null;
+
+  lanes = laneAlgorithms().map((algorithm, row) => ({
+    algorithm,
+    values: originalDataset.slice(),
+    mesh: createBlockMesh(heights, blockWidth, gap, -row * rowSpacing),
+    auxMesh: createBlockMesh(
+      new Array(AUX_ROWS * count).fill(0),
+      blockWidth,
+      gap,
+      -row * rowSpacing,
+      -3 * blockWidth,
+      AUX_ROWS,
+    ),
+    links: createLinkLines(count),
+    labels: createLabelGroup(),
+    bracket: createBracket(),
+    trace: null,
+    furthestCost: 0,
+    highlightedIndexes: [],
+    highlightedSlots: [],
+    finishElapsed: null,
+    verification: null,
+    tints: [],
+  }));
+  lanes.forEach(resetLaneTints);
+
+  const stackBottom = bottom - (lanes.length - 1) * rowSpacing;
+  const extent = `${count}:${stackBottom}:${top}`;
+  if (extent !== framedExtent) {
+    frameCamera((blockWidth + gap) * count, stackBottom, top);
+    framedExtent = extent;
   }
 }
 
-/** Sleep helper to slow down steps */
-function wait(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * ⌈log2(n!)⌉: any sort that only compares elements needs this many
+ * comparisons for some input of size n
+ */
+function comparisonLowerBound(n: number): number {
+  let bits = 0;
+  for (let k = 2; k <= n; k++) bits += Math.log2(k);
+  return Math.ceil(bits);
 }
 
-/** Play an audio tone mapped to the data value */
-function playTone(value: number): void {
-  const minFreq = 100;
-  const maxFreq = 1100;
-  const duration = 0.05;
-  const minVal = Math.min(...dataset);
-  const maxVal = Math.max(...dataset);
-  const range = maxVal - minVal || 1;
-  const normalized = (value - minVal) / range;
-  const freq = normalized * (maxFreq - minFreq) + minFreq;
-
-  const osc = audioCtx.createOscillator();
-  const gainNode = audioCtx.createGain();
-  osc.frequency.value = freq;
-  osc.type = 'sine';
-  osc.connect(gainNode);
-  gainNode.connect(audioCtx.destination);
-
-  const now = audioCtx.currentTime;
-  gainNode.gain.setValueAtTime(0.0, now);
-  gainNode.gain.linearRampToValueAtTime(0.1, now + 0.01);
-  gainNode.gain.linearRampToValueAtTime(0.0, now + duration);
-
-  osc.start(now);
-  osc.stop(now + duration + 0.01);
-}
-
-/** Swap two data values at indexes i & j */
-function swapValues(i: number, j: number): void {
-  arrayAccessCount += 4;
-  playTone(dataset[i]);
-  playTone(dataset[j]);
-  const temp = dataset[i];
-  dataset[i] = dataset[j];
-  dataset[j] = temp;
-}
-
-/** Update the 3D block height at a given index */
-function adjustBlockHeight(index: number): void {
-  playTone(dataset[index]);
-  const block = blocks[index];
-  const newHeight = dataset[index];
-  block.scale.y =
-    newHeight / (block.geometry as THREE.BoxGeometry).parameters.height;
-  block.position.y = newHeight / 2;
+/** Make the lanes match the current line-up, keeping their data if we can */
+function syncLanes(): void {
+  const algorithms = laneAlgorithms();
+  if (algorithms.length === lanes.length) {
+    lanes.forEach((lane, row) => (lane.algorithm = algorithms[row]));
+  } else {
+    createLanes();
+  }
 }
 
-/** Highlight a block (visual feedback) */
-function highlightBlock(index: number, color: number): void {
-  const mat = blocks[index].material as THREE.ShaderMaterial;
-  mat.uniforms.useOverrideColor.value = true;
-  mat.uniforms.overrideColor.value.setHex(color);
+/**
+ * Create a row (or several rows, each further back) of blocks: a single
+ * instanced mesh whose per-instance height, highlight and identity tint live
+ * in instanced attributes
+ */
+function createBlockMesh(
+  heights: number[],
+  blockWidth: number,
+  gap: number,
+  baseY: number,
+  z = 0,
+  rows = 1,
+): THREE.InstancedMesh {
+  const count = heights.length;
+  const columns = count / rows;
+  const startX = -((blockWidth + gap) * columns) / 2 + (blockWidth + gap) / 2;
+
+  // Unit box resting on y = 0, stretched to each value in the vertex shader
+  const geometry = new THREE.BoxGeometry(1, 1, 1);
+  geometry.translate(0, 0.5, 0);
+  geometry.setAttribute(
+    'instanceHeight',
+    new THREE.InstancedBufferAttribute(new Float32Array(heights), 1),
+  );
+  geometry.setAttribute(
+    'instanceHighlight',
+    new THREE.InstancedBufferAttribute(new Float32Array(count * 4), 4),
+  );
+  geometry.setAttribute(
+    'instanceTint',
+    new THREE.InstancedBufferAttribute(new Float32Array(count * 4), 4),
+  );
+
+  const mesh = new THREE.InstancedMesh(geometry, activeMaterial, count);
+  // Heights are applied in the shader, so the computed bounds are wrong
+  mesh.frustumCulled = false;
+
+  const matrix = new THREE.Matrix4();
+  for (let i = 0; i < count; i++) {
+    matrix.makeScale(blockWidth, 1, blockWidth);
+    const column = i % columns;
+    const rowZ = z - Math.floor(i / columns) * 2 * blockWidth;
+    matrix.setPosition(startX + column * (blockWidth + gap), baseY, rowZ);
+    mesh.setMatrixAt(i, matrix);
+  }
+  scene.add(mesh);
+  return mesh;
 }
 
-/** Remove highlight from a block */
-function clearBlockHighlight(index: number): void {
-  const mat = blocks[index].material as THREE.ShaderMaterial;
-  mat.uniforms.useOverrideColor.value = false;
+/** Create an (empty) set of lines with room for one per pair of blocks */
+function createLinkLines(count: number): THREE.LineSegments {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute(
+    'position',
+    new THREE.BufferAttribute(new Float32Array(count * 3), 3),
+  );
+  geometry.setDrawRange(0, 0);
+
+  const links = new THREE.LineSegments(geometry, linkMaterial);
+  links.frustumCulled = false;
+  scene.add(links);
+  return links;
 }
 
-/** Update GUI stats (array accesses, comparisons, etc.) */
-function updateStatistics(): void {
-  config.arrayAccesses = arrayAccessCount;
-  config.comparisons = comparisonCount;
+/** Create an (empty) group for a lane's variable labels */
+function createLabelGroup(): THREE.Group {
+  const labels = new THREE.Group();
+  scene.add(labels);
+  return labels;
+}
 
-  let elapsed: number | string;
-  if (finishTimestamp !== null) {
-    elapsed = ((finishTimestamp - startTimestamp) / 1000).toFixed(2);
-  } else {
-    elapsed = ((performance.now() - startTimestamp) / 1000).toFixed(2);
+/** Create a (hidden) bracket: a bar with a leg hanging from either end */
+function createBracket(): THREE.Group {
+  const bracket = new THREE.Group();
+  for (let part = 0; part < 3; part++) {
+    bracket.add(new THREE.Mesh(bracketGeometry, bracketMaterial));
   }
-  config.elapsedTime = elapsed + 's';
+  bracket.visible = false;
+  scene.add(bracket);
+  return bracket;
 }
 
-/** Highlight final sorted array for a finishing effect */
-async function highlightSorted(): Promise<void> {
-  for (let i = 0; i < dataset.length; i++) {
-    if (interruptRequested) break;
-    highlightBlock(i, 0x00ff00);
-    playTone(dataset[i]);
-    await wait(100 / config.speed);
-    clearBlockHighlight(i);
+/** Texture with a variable's name on it, made the first time it is needed */
+function labelTexture(name: string): THREE.CanvasTexture {
+  let texture = labelTextures.get(name);
+  if (!texture) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 64;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = '#ffff66';
+    context.font = 'bold 40px monospace';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(`${name} ▼`, canvas.width / 2, canvas.height / 2);
+    texture = new THREE.CanvasTexture(canvas);
+    labelTextures.set(name, texture);
   }
+  return texture;
 }
 
 /**
- * ===================
- * Sorting Algorithms
- * ===================
+ * Map a data value to a block height. Zero is the baseline, so negative
+ * values hang below it, and tiny values still show up as a sliver.
  */
+function valueToHeight(value: number): number {
+  const height = value * heightScale;
+  return height < 0
+    ? Math.min(height, -minBlockHeight)
+    : Math.max(height, minBlockHeight);
+}
 
-/** Bubble Sort */
-async function doBubbleSort(): Promise<void> {
-  if (isSorting) return;
-  isSorting = true;
-  interruptRequested = false;
-  arrayAccessCount = 0;
-  comparisonCount = 0;
-  startTimestamp = performance.now();
-  finishTimestamp = null;
-  updateStatistics();
+/** Move the camera so an array spanning the given extent fills the view */
+function frameCamera(width: number, bottom: number, top: number): void {
+  const height = top - bottom;
+  const halfFov = Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2);
+  const distance =
+    1.2 *
+    Math.max(height / (2 * halfFov), width / (2 * halfFov * camera.aspect));
+  const target = new THREE.Vector3(0, (top + bottom) / 2, 0);
+  const viewDirection = new THREE.Vector3(0, 0.25, 1).normalize();
+
+  camera.position.copy(target).addScaledVector(viewDirection, distance);
+  camera.near = distance / 1000;
+  camera.far = distance * 10;
+  camera.updateProjectionMatrix();
+  orbitControls.target.copy(target);
+  orbitControls.update();
+}
 
-  const n = dataset.length;
-  for (let i = 0; i < n - 1; i++) {
-    if (interruptRequested) break;
-    for (let j = 0; j < n - i - 1; j++) {
-      if (interruptRequested) break;
-      highlightBlock(j, 0xff0000);
-      highlightBlock(j + 1, 0xff0000);
-      interval = Math.max(1, 100 / config.speed);
-      await wait(interval);
-      comparisonCount++;
-      arrayAccessCount += 2;
-
-      playTone(dataset[j]);
-      playTone(dataset[j + 1]);
-
-      if (dataset[j] > dataset[j + 1]) {
-        swapValues(j, j + 1);
-        adjustBlockHeight(j);
-        adjustBlockHeight(j + 1);
-      }
-      clearBlockHighlight(j);
-      clearBlockHighlight(j + 1);
-      updateStatistics();
-    }
-  }
+/** Sleep helper to slow down steps */
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
-  if (!interruptRequested) {
-    finishTimestamp = performance.now();
-    updateStatistics();
-    await highlightSorted();
-  }
-  isSorting = false;
+/** Sound a tone for a value, unless the sound is muted */
+function soundTone(value: number, kind: ToneKind): void {
+  if (!config.muted) playTone(value, kind, toneRange, config);
 }
 
-/** Selection Sort */
-async function doSelectionSort(): Promise<void> {
-  if (isSorting) return;
-  isSorting = true;
-  interruptRequested = false;
-  arrayAccessCount = 0;
-  comparisonCount = 0;
-  startTimestamp = performance.now();
-  finishTimestamp = null;
-  updateStatistics();
+/** Look up one of a row's per-instance block attributes */
+function blockAttribute(
+  mesh: THREE.InstancedMesh,
+  name: string,
+): THREE.InstancedBufferAttribute {
+  return mesh.geometry.getAttribute(name) as THREE.InstancedBufferAttribute;
+}
 
-  const n = dataset.length;
-  for (let i = 0; i < n - 1; i++) {
-    if (interruptRequested) break;
-    let minIdx = i;
-    highlightBlock(minIdx, 0x00ff00);
-    playTone(dataset[minIdx]);
-
-    for (let j = i + 1; j < n; j++) {
-      if (interruptRequested) break;
-      highlightBlock(j, 0xff0000);
-      interval = Math.max(1, 100 / config.speed);
-      await wait(interval);
-      comparisonCount++;
-      arrayAccessCount += 2;
-      playTone(dataset[j]);
-      playTone(dataset[minIdx]);
-
-      if (dataset[j] < dataset[minIdx]) {
-        clearBlockHighlight(minIdx);
-        minIdx = j;
-        highlightBlock(minIdx, 0x00ff00);
-        playTone(dataset[minIdx]);
-      } else {
-        clearBlockHighlight(j);
-      }
-      updateStatistics();
-    }
-    if (minIdx !== i) {
-      swapValues(i, minIdx);
-      adjustBlockHeight(i);
-      adjustBlockHeight(minIdx);
-    }
-    clearBlockHighlight(minIdx);
-    clearBlockHighlight(i);
-    updateStatistics();
+/** Update the 3D block height (and tint) at a given index */
+function updateBlock(lane: Lane, index: number): void {
+  const heights = blockAttribute(lane.mesh, 'instanceHeight');
+  heights.setX(index, valueToHeight(lane.values[index]));
+  heights.needsUpdate = true;
+
+  const tints = blockAttribute(lane.mesh, 'instanceTint');
+  const tint = blockTint(lane, index);
+  if (tint !== null) {
+    const { r, g, b } = highlightColor.setHex(tint);
+    tints.setXYZW(index, r, g, b, 1);
+  } else {
+    tints.setW(index, 0);
   }
+  tints.needsUpdate = true;
+}
 
-  if (!interruptRequested) {
-    finishTimestamp = performance.now();
-    updateStatistics();
-    await highlightSorted();
+/**
+ * A block's tint: its identity when that is shown, otherwise during a Shell
+ * Sort pass with gap h, blocks i, i+h, i+2h, ... that are h-sorted together
+ * share a colour. Null leaves the shader's own colour.
+ */
+function blockTint(lane: Lane, index: number): number | null {
+  if (config.showIdentity) {
+    const tag = lane.trace ? lane.trace.tags[index] : index;
+    return tag === UNKNOWN_TAG ? 0x333333 : lane.tints[tag];
   }
-  isSorting = false;
+  const gap = lane.trace?.markers.gap ?? null;
+  if (gap === null || gap <= 1) return null;
+  return highlightColor.setHSL((index % gap) / gap, 0.8, 0.5).getHex();
 }
 
-/** Insertion Sort */
-async function doInsertionSort(): Promise<void> {
-  if (isSorting) return;
-  isSorting = true;
-  interruptRequested = false;
-  arrayAccessCount = 0;
-  comparisonCount = 0;
-  startTimestamp = performance.now();
-  finishTimestamp = null;
-  updateStatistics();
+/**
+ * Colour each element by its original position among equal keys: the k-th of
+ * m copies of a key gets the k-th of m hues, so after a stable sort every run
+ * of equal keys reads red to violet. Keys that occur only once stay grey.
+ */
+function identityTints(values: number[]): number[] {
+  const counts = new Map<number, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+
+  const seen = new Map<number, number>();
+  return values.map((value) => {
+    const total = counts.get(value)!;
+    const occurrence = seen.get(value) ?? 0;
+    seen.set(value, occurrence + 1);
+    if (total === 1) return 0x808080;
+    return highlightColor
+      .setHSL((0.8 * occurrence) / (total - 1), 0.9, 0.5)
+      .getHex();
+  });
+}
 
-  const n = dataset.length;
-  for (let i = 1; i < n; i++) {
-    if (interruptRequested) break;
-    const key = dataset[i];
-    arrayAccessCount++;
-    playTone(key);
-
-    let j = i - 1;
-    highlightBlock(i, 0xff0000);
-    interval = Math.max(1, 100 / config.speed);
-    await wait(interval);
-
-    while (j >= 0 && !interruptRequested) {
-      comparisonCount++;
-      arrayAccessCount += 2;
-      playTone(dataset[j]);
-      playTone(key);
-
-      if (dataset[j] > key) {
-        dataset[j + 1] = dataset[j];
-        arrayAccessCount += 2;
-        adjustBlockHeight(j + 1);
-        highlightBlock(j, 0xff0000);
-        interval = Math.max(1, 100 / config.speed);
-        await wait(interval);
-        clearBlockHighlight(j + 1);
-        j--;
-      } else {
-        break;
-      }
-      updateStatistics();
-    }
-    dataset[j + 1] = key;
-    arrayAccessCount++;
-    adjustBlockHeight(j + 1);
-    clearBlockHighlight(j + 1);
-    clearBlockHighlight(i);
-    updateStatistics();
-  }
+/** Recolour a lane's blocks from the input its trace (if any) started with */
+function resetLaneTints(lane: Lane): void {
+  lane.tints = identityTints(lane.trace?.input ?? lane.values);
+  lane.values.forEach((_, index) => updateBlock(lane, index));
+  renderAux(lane);
+}
 
-  if (!interruptRequested) {
-    finishTimestamp = performance.now();
-    updateStatistics();
-    await highlightSorted();
+/** Update the auxiliary block at a slot, leaving it flat while empty */
+function updateAuxSlot(lane: Lane, slot: number): void {
+  const value = lane.trace?.aux[slot] ?? null;
+  const heights = blockAttribute(lane.auxMesh, 'instanceHeight');
+  if (slot >= heights.count) return;
+  heights.setX(slot, value === null ? 0 : valueToHeight(value));
+  heights.needsUpdate = true;
+
+  const tints = blockAttribute(lane.auxMesh, 'instanceTint');
+  const tint = value === null ? null : auxTint(lane, slot);
+  if (tint !== null) {
+    const { r, g, b } = highlightColor.setHex(tint);
+    tints.setXYZW(slot, r, g, b, 1);
+  } else {
+    tints.setW(slot, 0);
   }
-  isSorting = false;
+  tints.needsUpdate = true;
 }
 
-/** Quick Sort */
-async function doQuickSort(low = 0, high = dataset.length - 1): Promise<void> {
-  if (interruptRequested) return;
+/** Redraw a lane's whole auxiliary row */
+function renderAux(lane: Lane): void {
+  const slots = blockAttribute(lane.auxMesh, 'instanceHeight').count;
+  for (let slot = 0; slot < slots; slot++) updateAuxSlot(lane, slot);
+}
 
-  if (!isSorting) {
-    // We only set these once at the very start
-    isSorting = true;
-    interruptRequested = false;
-    arrayAccessCount = 0;
-    comparisonCount = 0;
-    startTimestamp = performance.now();
-    finishTimestamp = null;
-    updateStatistics();
+/** An auxiliary block's tint: its identity, or else the bucket it is in */
+function auxTint(lane: Lane, slot: number): number | null {
+  const trace = lane.trace!;
+  if (config.showIdentity) {
+    const tag = trace.auxTags[slot];
+    return tag === UNKNOWN_TAG ? 0x333333 : lane.tints[tag];
   }
+  const starts = trace.markers.buckets;
+  if (!starts || slot < starts[0]) return null;
+
+  // Last bucket starting at or before the slot
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (starts[mid] <= slot) low = mid;
+    else high = mid - 1;
+  }
+  return highlightColor.setHSL(low / starts.length, 0.8, 0.5).getHex();
+}
 
-  await quickSortHelper(low, high);
+/** Highlight a block (visual feedback) */
+function highlightBlock(lane: Lane, index: number, color: number): void {
+  const highlights = blockAttribute(lane.mesh, 'instanceHighlight');
+  const { r, g, b } = highlightColor.setHex(color);
+  highlights.setXYZW(index, r, g, b, 1);
+  highlights.needsUpdate = true;
+}
 
-  // Once the entire array is processed
-  if (low === 0 && high === dataset.length - 1) {
-    if (!interruptRequested) {
-      finishTimestamp = performance.now();
-      updateStatistics();
-      await highlightSorted();
+/** Remove highlight from a block */
+function clearBlockHighlight(lane: Lane, index: number): void {
+  const highlights = blockAttribute(lane.mesh, 'instanceHighlight');
+  highlights.setW(index, 0);
+  highlights.needsUpdate = true;
+}
+
+/** Draw a line across the tops of each pair of blocks, or hide the lines */
+function renderLinks(lane: Lane, pairs: [number, number][]): void {
+  const { geometry } = lane.links;
+  geometry.setDrawRange(0, pairs.length * 2);
+  if (pairs.length === 0) return;
+
+  const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+  const heights = blockAttribute(lane.mesh, 'instanceHeight');
+  pairs.forEach((pair, idx) => {
+    pair.forEach((index, end) => {
+      lane.mesh.getMatrixAt(index, linkMatrix);
+      linkEnd.setFromMatrixPosition(linkMatrix);
+      // Just above the top of the block, or the baseline for negative values
+      const top = Math.max(0, heights.getX(index)) + 1;
+      positions.setXYZ(2 * idx + end, linkEnd.x, linkEnd.y + top, linkEnd.z);
+    });
+  });
+  positions.needsUpdate = true;
+}
+
+/**
+ * Float a label over the block each of the lane's index variables points at,
+ * stacking the labels of variables that point at the same block
+ */
+function renderPointers(lane: Lane): void {
+  const { labels, trace } = lane;
+  const pointers =
+    trace && !isTraceComplete(trace) ? watchedPointers(trace) : {};
+  if (lane === shownLane()) pointers.selected = selectedBlock;
+  const heights = blockAttribute(lane.mesh, 'instanceHeight');
+  const stacked = new Map<number, number>();
+  const shown = new Set<string>();
+
+  Object.entries(pointers).forEach(([name, index]) => {
+    if (index === null || index < 0 || index >= lane.values.length) return;
+    let label = labels.getObjectByName(name) as THREE.Sprite | undefined;
+    if (!label) {
+      label = new THREE.Sprite(
+        new THREE.SpriteMaterial({ map: labelTexture(name), depthTest: false }),
+      );
+      label.name = name;
+      labels.add(label);
     }
-    isSorting = false;
-    updateStatistics();
-  }
+
+    const level = stacked.get(index) ?? 0;
+    stacked.set(index, level + 1);
+    lane.mesh.getMatrixAt(index, linkMatrix);
+    linkEnd.setFromMatrixPosition(linkMatrix);
+    const top = Math.max(0, heights.getX(index));
+    label.position.set(
+      linkEnd.x,
+      linkEnd.y + top + labelHeight * (1 + 1.2 * level),
+      linkEnd.z,
+    );
+    label.scale.set(4 * labelHeight, labelHeight, 1);
+    shown.add(name);
+  });
+  labels.children.forEach((label) => (label.visible = shown.has(label.name)));
 }
 
-async function quickSortHelper(low: number, high: number): Promise<void> {
-  if (interruptRequested) return;
-  if (low < high) {
-    const pi = await quickPartition(low, high);
-    await quickSortHelper(low, pi - 1);
-    await quickSortHelper(pi + 1, high);
-  }
+/**
+ * Stretch the lane's bracket over the innermost sub-range its algorithm has
+ * entered, just above the tallest block, or hide it if there is none
+ */
+function renderBracket(lane: Lane): void {
+  const { bracket, trace } = lane;
+  const frame = trace && !isTraceComplete(trace) ? trace.frames.at(-1) : null;
+  bracket.visible = !!frame;
+  if (!frame) return;
+
+  const [low, high] = frame;
+  lane.mesh.getMatrixAt(low, linkMatrix);
+  const left = linkEnd.setFromMatrixPosition(linkMatrix).x - blockSpacing / 2;
+  const { y: baseY, z } = linkEnd;
+  lane.mesh.getMatrixAt(high, linkMatrix);
+  const right = linkEnd.setFromMatrixPosition(linkMatrix).x + blockSpacing / 2;
+
+  const thickness = labelHeight * 0.3;
+  const barY = baseY + laneTop + labelHeight * 0.4;
+  const legWidth = Math.min(blockSpacing * 0.2, labelHeight * 0.1);
+  const legBottom = baseY + laneBottom;
+  const [bar, leftLeg, rightLeg] = bracket.children;
+  bar.scale.set(right - left, thickness, blockSpacing);
+  bar.position.set((left + right) / 2, barY, z);
+  [leftLeg, rightLeg].forEach((leg, end) => {
+    const x = end === 0 ? left : right;
+    leg.scale.set(legWidth, barY - legBottom, blockSpacing);
+    leg.position.set(x, (barY + legBottom) / 2, z);
+  });
 }
 
-async function quickPartition(low: number, high: number): Promise<number> {
-  if (interruptRequested) return 0;
-  const pivot = dataset[high];
-  arrayAccessCount++;
-  playTone(pivot);
+/** Index variables of a trace, including its pivot and the end of its heap */
+function watchedPointers(trace: Trace): Vars {
+  const { pointers, pivot, heap } = trace.markers;
+  return {
+    ...pointers,
+    pivot,
+    'heap end': heap && heap.low + heap.size - 1,
+  };
+}
 
-  highlightBlock(high, 0x0000ff);
+/** Other variables of a trace, including its gap and heap size */
+function watchedVariables(trace: Trace): Vars {
+  const { variables, gap, heap } = trace.markers;
+  return { ...variables, gap, 'heap size': heap && heap.size };
+}
 
-  let i = low - 1;
+/** List the shown algorithm's variables and their values */
+function updateWatchPanel(): void {
+  const watchBox = document.getElementById('watch-box');
+  if (!watchBox) return;
+  const trace = shownTrace();
+  const vars = trace
+    ? { ...watchedPointers(trace), ...watchedVariables(trace) }
+    : {};
+  const rows = Object.entries(vars)
+    .filter(([, value]) => value !== null)
+    .map(([name, value]) => `${name} = ${value}`);
+  watchBox.style.display = rows.length > 0 ? 'block' : 'none';
+  watchBox.textContent = 'Variables\n\n' + rows.join('\n');
+}
 
-  for (let j = low; j <= high - 1; j++) {
-    if (interruptRequested) break;
-    highlightBlock(j, 0xff0000);
-    interval = Math.max(1, 100 / config.speed);
-    await wait(interval);
-
-    comparisonCount++;
-    arrayAccessCount++;
-    playTone(dataset[j]);
-
-    if (dataset[j] < pivot) {
-      i++;
-      swapValues(i, j);
-      adjustBlockHeight(i);
-      adjustBlockHeight(j);
-      clearBlockHighlight(j);
-    } else {
-      clearBlockHighlight(j);
-    }
-    updateStatistics();
+/** Time played so far in the current run, in milliseconds */
+function readClock(): number {
+  let elapsed = elapsedBeforePause;
+  if (resumeTimestamp !== null) {
+    elapsed += performance.now() - resumeTimestamp;
   }
+  return elapsed;
+}
 
-  if (interruptRequested) return 0;
-  swapValues(i + 1, high);
-  adjustBlockHeight(i + 1);
-  adjustBlockHeight(high);
-  clearBlockHighlight(high);
-  updateStatistics();
-  return i + 1;
+/** Update GUI stats (array accesses, comparisons, etc.) */
+function updateStatistics(): void {
+  const trace = shownLane()?.trace;
+  config.arrayAccesses = trace?.arrayAccesses ?? 0;
+  config.reads = trace?.reads ?? 0;
+  config.writes = trace?.writes ?? 0;
+  config.swaps = trace?.swaps ?? 0;
+  config.comparisons = trace?.comparisons ?? 0;
+  config.depth = trace?.depth ?? 0;
+  config.peakMemory = memoryLabel(trace?.peakAuxiliary ?? 0);
+  config.recursionDepth = recursionLabel(trace);
+  config.phase = trace?.markers.phase ?? '';
+  config.gap = String(trace?.markers.gap ?? '');
+  config.elapsedTime = (readClock() / 1000).toFixed(2) + 's';
+  updateRaceBoard();
+  updatePseudoHighlight();
+  updateWatchPanel();
+  renderHeapView();
+  updateCallStack();
+  updateCharts(trace ?? null);
+  lanes.forEach((lane) => {
+    renderPointers(lane);
+    renderBracket(lane);
+  });
 }
 
-/** Merge Sort */
-async function doMergeSort(): Promise<void> {
-  if (isSorting) return;
-  isSorting = true;
-  interruptRequested = false;
-  arrayAccessCount = 0;
-  comparisonCount = 0;
-  startTimestamp = performance.now();
-  finishTimestamp = null;
-  updateStatistics();
+/** Auxiliary slots, also as a multiple of n so they read against O(n) */
+function memoryLabel(slots: number): string {
+  const n = originalDataset.length;
+  return slots === 0 || n === 0
+    ? String(slots)
+    : `${slots} (${(slots / n).toFixed(2)}n)`;
+}
 
-  await mergeSortHelper(0, dataset.length - 1);
+/** List the shown algorithm's active frames, innermost first */
+function updateCallStack(): void {
+  const stackBox = document.getElementById('stack-box');
+  if (!stackBox) return;
+  const trace = shownTrace();
+  const frames = trace?.frames ?? [];
+  stackBox.style.display = frames.length > 0 ? 'block' : 'none';
+  if (frames.length === 0) return;
+
+  const call = frameCalls[shownLane()!.algorithm];
+  const shown = frames
+    .slice(-CALL_STACK_ROWS)
+    .reverse()
+    .map(([low, high]) =>
+      call ? `${call}(A, ${low}, ${high})` : `A[${low}..${high}]`,
+    );
+  const hidden = frames.length - shown.length;
+  stackBox.textContent =
+    `Call Stack (depth ${frames.length})\n\n` +
+    shown.join('\n') +
+    (hidden > 0 ? `\n... ${hidden} more` : '');
+}
 
-  if (!interruptRequested) {
-    finishTimestamp = performance.now();
-    updateStatistics();
-    await highlightSorted();
-  }
-  isSorting = false;
+/** Current and deepest recursion of a trace */
+function recursionLabel(trace: Trace | null | undefined): string {
+  return trace ? `${trace.recursion} / ${trace.peakRecursion}` : '0 / 0';
 }
 
-async function mergeSortHelper(left: number, right: number): Promise<void> {
-  if (interruptRequested) return;
-  if (left < right) {
-    const mid = Math.floor((left + right) / 2);
-    await mergeSortHelper(left, mid);
-    await mergeSortHelper(mid + 1, right);
-    await merge(left, mid, right);
+/**
+ * Lane the stats, panels and sound follow: the one running the algorithm
+ * whose pseudo-code is shown, or the top one when that algorithm is not
+ * racing
+ */
+function shownLane(): Lane | null {
+  return (
+    lanes.find(({ algorithm }) => algorithm === config.chosenAlgo) ??
+    lanes[0] ??
+    null
+  );
+}
+
+/** Trace of the shown algorithm, while it is still running */
+function shownTrace(): Trace | null {
+  const trace = shownLane()?.trace;
+  return trace && !isTraceComplete(trace) ? trace : null;
+}
+
+/** Light up the pseudo-code line the shown algorithm has just carried out */
+function updatePseudoHighlight(): void {
+  // The shown lane may be running some other algorithm than the pseudo-code
+  const trace =
+    shownLane()?.algorithm === config.chosenAlgo ? shownTrace() : null;
+  const line = trace ? currentLine(trace) : null;
+  const element = line === null ? null : (pseudoLines[line - 1] ?? null);
+  if (element === activePseudoLine) return;
+  activePseudoLine?.classList.remove('active');
+  element?.classList.add('active');
+  activePseudoLine = element;
+}
+
+/** Stop the run clock, banking the time played so far */
+function pauseClock(): void {
+  if (resumeTimestamp === null) return;
+  elapsedBeforePause += performance.now() - resumeTimestamp;
+  resumeTimestamp = null;
+}
+
+/** Sweep green across every lane that verified as sorted */
+async function highlightSorted(): Promise<void> {
+  const sortedLanes = lanes.filter(
+    ({ verification }) => verification && isCorrect(verification),
+  );
+  if (sortedLanes.length === 0) return;
+
+  const batch = opsPerTick();
+  const count = originalDataset.length;
+  for (let i = 0; i < count; i += batch) {
+    if (interruptRequested) break;
+    const end = Math.min(i + batch, count);
+    sortedLanes.forEach((lane) => {
+      for (let k = i; k < end; k++) highlightBlock(lane, k, 0x00ff00);
+    });
+    soundTone(sortedLanes[0].values[end - 1], 'compare');
+    await wait(100 / config.speed);
+    sortedLanes.forEach((lane) => {
+      for (let k = i; k < end; k++) clearBlockHighlight(lane, k);
+    });
   }
 }
 
-async function merge(left: number, mid: number, right: number): Promise<void> {
-  if (interruptRequested) return;
+/**
+ * ================
+ * Verification
+ * ================
+ */
 
-  const n1 = mid - left + 1;
-  const n2 = right - mid;
-  const L: number[] = [];
-  const R: number[] = [];
+/**
+ * Track a lane's finish: when its trace completes, note the time and verify
+ * the output; forget both if it is stepped back again
+ */
+function updateLaneResult(lane: Lane): void {
+  const isComplete = lane.trace !== null && isTraceComplete(lane.trace);
+  if (!isComplete) {
+    lane.finishElapsed = null;
+    if (lane.verification) {
+      lane.verification = null;
+      reportVerification();
+    }
+  } else if (lane.finishElapsed === null) {
+    lane.finishElapsed = readClock();
+    lane.verification = verifyTrace(lane.trace!);
+    reportVerification();
+  }
+}
 
-  for (let i = 0; i < n1; i++) {
-    arrayAccessCount++;
-    L[i] = dataset[left + i];
-    playTone(L[i]);
+/** Put the verdict of every finished lane in the status line */
+function reportVerification(): void {
+  const verified = lanes.filter(({ verification }) => verification);
+  if (lanes.length === 1) {
+    const [lane] = verified;
+    config.statusMessage = lane ? describeVerification(lane.verification!) : '';
+    return;
   }
-  for (let j = 0; j < n2; j++) {
-    arrayAccessCount++;
-    R[j] = dataset[mid + 1 + j];
-    playTone(R[j]);
+
+  // The race board shows each racer's verdict, so only call out failures
+  const failures = verified
+    .filter(({ verification }) => !isCorrect(verification!))
+    .map(
+      ({ algorithm, verification }) =>
+        `${algorithm}: ${describeVerification(verification!)}`,
+    );
+  config.statusMessage = failures.join('; ');
+}
+
+/** Mark the first out-of-order pair in red, or unstable equal keys in orange */
+function renderVerification(lane: Lane): void {
+  const { verification } = lane;
+  if (!verification) return;
+  if (verification.inversion !== null) {
+    const i = verification.inversion;
+    renderHighlights(lane, [i, i + 1]);
+  } else if (verification.unstablePair) {
+    renderHighlights(lane, verification.unstablePair, 0xff8800);
   }
+}
+
+/** Short verdict for the race board */
+function verdictLabel(verification: Verification | null): string {
+  if (!verification) return '-';
+  if (!isCorrect(verification)) return 'Not sorted';
+  if (verification.isStable === true) return 'Sorted, stable';
+  if (verification.isStable === false) return 'Sorted, unstable';
+  return 'Sorted';
+}
+
+/**
+ * ================
+ * Race Mode
+ * ================
+ */
+
+/**
+ * Work a trace has done so far: its comparisons plus array accesses.
+ * Bookkeeping (markers, phases, ranges) costs nothing.
+ */
+function traceCost(trace: Trace): number {
+  return trace.comparisons + trace.arrayAccesses;
+}
+
+/**
+ * Finishing place of every lane (null while still running). Lanes are
+ * ranked by how much work they needed, so ties share a place.
+ */
+function racePlaces(): (number | null)[] {
+  const finishedCosts = lanes
+    .filter(({ trace }) => trace && isTraceComplete(trace))
+    .map(({ trace }) => traceCost(trace!));
+  return lanes.map(({ trace }) => {
+    if (!trace || !isTraceComplete(trace)) return null;
+    const cost = traceCost(trace);
+    return 1 + finishedCosts.filter((other) => other < cost).length;
+  });
+}
 
-  let i = 0,
-    j = 0,
-    k = left;
+/** Show each racer's counters and the finishing order, top row first */
+function updateRaceBoard(): void {
+  const board = document.getElementById('race-board');
+  if (!board) return;
+  board.style.display = lanes.length > 1 ? 'block' : 'none';
+  if (lanes.length < 2) return;
+
+  const places = racePlaces();
+  const clock = readClock();
+  const rows = lanes.map((lane, row) => {
+    const place = places[row];
+    const elapsed = lane.finishElapsed ?? (lane.trace ? clock : 0);
+    return `<tr><td>${place ?? '-'}</td><td>${lane.algorithm}</td><td>${
+      lane.trace?.arrayAccesses ?? 0
+    }</td><td>${lane.trace?.comparisons ?? 0}</td><td>${(
+      elapsed / 1000
+    ).toFixed(2)}s</td><td>${verdictLabel(lane.verification)}</td></tr>`;
+  });
+  board.innerHTML =
+    '<table><tr><th>Place</th><th>Algorithm</th><th>Accesses</th>' +
+    '<th>Comparisons</th><th>Time</th><th>Result</th></tr>' +
+    rows.join('') +
+    '</table>';
+}
+
+/**
+ * =============
+ * Live Charts
+ * =============
+ *
+ * The first lane's counters are sampled as it plays and plotted against the
+ * operation number. A finished run's curves stay up, and are kept in grey
+ * behind the next run's so the two can be compared.
+ */
 
-  while (i < n1 && j < n2 && !interruptRequested) {
-    highlightBlock(k, 0xff0000);
-    interval = Math.max(1, 100 / config.speed);
-    await wait(interval);
+/** Counters of a trace after its first `op` operations */
+interface ChartSample {
+  op: number;
+  reads: number;
+  writes: number;
+  swaps: number;
+  comparisons: number;
+  recursion: number;
+  auxiliary: number;
+}
 
-    comparisonCount++;
-    arrayAccessCount += 2;
-    playTone(L[i]);
-    playTone(R[j]);
+/** Counters plotted, each in its own row, with their colours */
+const chartMetrics: [Exclude<keyof ChartSample, 'op'>, string, string][] = [
+  ['reads', 'Reads', '#4fc3f7'],
+  ['writes', 'Writes', '#ff8a65'],
+  ['swaps', 'Swaps', '#ffd54f'],
+  ['comparisons', 'Comparisons', '#81c784'],
+  ['recursion', 'Recursion', '#ba68c8'],
+  ['auxiliary', 'Extra Memory', '#f06292'],
+];
+
+/** Samples kept per run; past this every other one is dropped */
+const MAX_CHART_SAMPLES = 2000;
+const CHART_ROW_HEIGHT = 38;
+
+let chartTrace: Trace | null = null;
+let chartSamples: ChartSample[] = [];
+let previousChart: ChartSample[] = [];
+
+/** Sample a trace where its cursor is now */
+function chartSample(trace: Trace): ChartSample {
+  const { cursor, reads, writes, swaps, comparisons, recursion, auxiliary } =
+    trace;
+  return {
+    op: cursor,
+    reads,
+    writes,
+    swaps,
+    comparisons,
+    recursion,
+    auxiliary,
+  };
+}
 
-    if (L[i] <= R[j]) {
-      dataset[k] = L[i];
-      arrayAccessCount++;
-      adjustBlockHeight(k);
-      i++;
-    } else {
-      dataset[k] = R[j];
-      arrayAccessCount++;
-      adjustBlockHeight(k);
-      j++;
+/**
+ * Add the trace's current counters to the chart and redraw it. A new trace
+ * starts a new run, and the last one's curves become the comparison.
+ */
+function updateCharts(trace: Trace | null): void {
+  if (trace && trace !== chartTrace) {
+    if (chartSamples.length > 1) previousChart = chartSamples;
+    chartSamples = [chartSample(trace)];
+    chartTrace = trace;
+  } else if (trace) {
+    // Stepping back or seeking rewinds the curves too
+    while (
+      chartSamples.length > 0 &&
+      chartSamples[chartSamples.length - 1].op >= trace.cursor
+    ) {
+      chartSamples.pop();
+    }
+    chartSamples.push(chartSample(trace));
+    if (chartSamples.length > MAX_CHART_SAMPLES) {
+      chartSamples = chartSamples.filter(
+        (_, k) => k % 2 === 0 || k === chartSamples.length - 1,
+      );
     }
-    clearBlockHighlight(k);
-    k++;
-    updateStatistics();
   }
+  drawCharts();
+}
 
-  while (i < n1 && !interruptRequested) {
-    highlightBlock(k, 0xff0000);
-    interval = Math.max(1, 100 / config.speed);
-    await wait(interval);
+/** Plot every counter of the current and previous runs on a shared op axis */
+function drawCharts(): void {
+  const canvas = document.getElementById('chart-box') as HTMLCanvasElement;
+  const context = canvas?.getContext('2d');
+  if (!context) return;
+  canvas.style.display =
+    chartSamples.length > 1 || previousChart.length > 1 ? 'block' : 'none';
+
+  const width = canvas.width;
+  canvas.height = chartMetrics.length * CHART_ROW_HEIGHT;
+  const lastOp = (samples: ChartSample[]) =>
+    samples.length > 0 ? samples[samples.length - 1].op : 0;
+  const maxOp = Math.max(1, lastOp(chartSamples), lastOp(previousChart));
+
+  context.font = '11px Arial, sans-serif';
+  chartMetrics.forEach(([metric, name, colour], row) => {
+    const top = row * CHART_ROW_HEIGHT + 14;
+    const height = CHART_ROW_HEIGHT - 18;
+    const peak = (samples: ChartSample[]) =>
+      samples.reduce((most, sample) => Math.max(most, sample[metric]), 0);
+    const maxValue = Math.max(1, peak(chartSamples), peak(previousChart));
+    const current = chartSamples[chartSamples.length - 1]?.[metric] ?? 0;
+
+    context.fillStyle = colour;
+    context.fillText(`${name}: ${current}`, 0, top - 3);
+    context.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    context.beginPath();
+    context.moveTo(0, top + height + 0.5);
+    context.lineTo(width, top + height + 0.5);
+    context.stroke();
+
+    const plot = (samples: ChartSample[], stroke: string) => {
+      context.strokeStyle = stroke;
+      context.beginPath();
+      samples.forEach((sample, k) => {
+        const x = (sample.op / maxOp) * width;
+        const y = top + height - (sample[metric] / maxValue) * height;
+        if (k === 0) context.moveTo(x, y);
+        else context.lineTo(x, y);
+      });
+      context.stroke();
+    };
+    plot(previousChart, 'rgba(160, 160, 160, 0.7)');
+    plot(chartSamples, colour);
+  });
+}
 
-    dataset[k] = L[i];
-    arrayAccessCount++;
-    playTone(L[i]);
-    adjustBlockHeight(k);
-    clearBlockHighlight(k);
-    i++;
-    k++;
-    updateStatistics();
+/**
+ * =====================
+ * Complexity Explorer
+ * =====================
+ *
+ * Analyzing runs the chosen algorithm, unanimated, over a range of sizes and
+ * inputs, plots its comparisons and array accesses against n and fits them
+ * to n, n log n and n², so the stated time complexity can be checked.
+ */
+
+const ANALYSIS_SIZES = [32, 64, 128, 256, 512, 1024];
+const ANALYSIS_DISTRIBUTIONS = [
+  'Random',
+  'Sorted',
+  'Reversed',
+  'Nearly Sorted',
+  'Few Unique',
+];
+const ANALYSIS_WIDTH = 300;
+const ANALYSIS_HEIGHT = 160;
+
+/** Colours of each distribution's points, and of the fitted curves */
+const distributionColours = [
+  '#4fc3f7',
+  '#81c784',
+  '#ff8a65',
+  '#ffd54f',
+  '#ba68c8',
+];
+const growthColours = ['#888888', '#ffffff', '#f06292'];
+
+/** Counters plotted, each in its own chart */
+const analysisMetrics: ['comparisons' | 'arrayAccesses', string][] = [
+  ['comparisons', 'Comparisons'],
+  ['arrayAccesses', 'Array Accesses'],
+];
+
+/** Bumped to abandon an analysis when the algorithm or its options change */
+let analysisId = 0;
+
+/** Measure the chosen algorithm across sizes and inputs, then show the fits */
+async function analyzeComplexity(): Promise<void> {
+  if (isSorting) {
+    config.statusMessage = 'Stop sorting before analyzing';
+    return;
+  }
+  const id = ++analysisId;
+  const name = config.chosenAlgo;
+  const samples: GrowthSample[] = [];
+  const runs = ANALYSIS_SIZES.length * ANALYSIS_DISTRIBUTIONS.length;
+  for (const sample of measureGrowth(
+    name,
+    configuredAlgorithm(name),
+    ANALYSIS_SIZES,
+    ANALYSIS_DISTRIBUTIONS,
+  )) {
+    if (sample) {
+      samples.push(sample);
+      config.measuredComplexity = `Measuring ${samples.length}/${runs}...`;
+    }
+    // Give way between and during runs so the page keeps responding
+    await wait(0);
+    if (id !== analysisId) return;
   }
 
-  while (j < n2 && !interruptRequested) {
-    highlightBlock(k, 0xff0000);
-    interval = Math.max(1, 100 / config.speed);
-    await wait(interval);
+  // Distribution sorts make no comparisons, so fall back to their accesses
+  const best =
+    fitGrowth(worstCase(samples, 'comparisons'))[0] ??
+    fitGrowth(worstCase(samples, 'arrayAccesses'))[0];
+  config.measuredComplexity = best ? `O(${best.growth.name})` : '';
+  renderAnalysis(name, samples);
+}
 
-    dataset[k] = R[j];
-    arrayAccessCount++;
-    playTone(R[j]);
-    adjustBlockHeight(k);
-    clearBlockHighlight(k);
-    j++;
-    k++;
-    updateStatistics();
-  }
+/** Hide the analysis and stop one that is still running */
+function closeAnalysis(): void {
+  analysisId++;
+  config.measuredComplexity = '';
+  const box = document.getElementById('analysis-box');
+  if (box) box.style.display = 'none';
 }
 
-/** Heap Sort */
-async function doHeapSort(): Promise<void> {
-  if (isSorting) return;
-  isSorting = true;
-  interruptRequested = false;
-  arrayAccessCount = 0;
-  comparisonCount = 0;
-  startTimestamp = performance.now();
-  finishTimestamp = null;
-  updateStatistics();
+/** Best fitting class of some points, or a dash when they cannot be fitted */
+function bestFitName(points: GrowthPoint[]): string {
+  return fitGrowth(points)[0]?.growth.name ?? '—';
+}
 
-  const n = dataset.length;
-  for (let i = Math.floor(n / 2) - 1; i >= 0; i--) {
-    if (interruptRequested) break;
-    await heapify(n, i);
-    updateStatistics();
+/**
+ * Show a chart per counter, with each input's counts and the growth classes
+ * fitted to the worst case, and a table of the best fit for every input
+ */
+function renderAnalysis(name: string, samples: GrowthSample[]): void {
+  const box = document.getElementById('analysis-box');
+  if (!box) return;
+  box.replaceChildren();
+
+  const close = document.createElement('button');
+  close.textContent = '×';
+  close.addEventListener('click', () => closeAnalysis());
+  const title = document.createElement('div');
+  title.className = 'analysis-title';
+  title.textContent = `Measured growth of ${name}`;
+  box.append(close, title);
+
+  const charts = document.createElement('div');
+  charts.className = 'analysis-charts';
+  for (const [metric, label] of analysisMetrics) {
+    const worst = worstCase(samples, metric);
+    charts.appendChild(
+      drawGrowthChart(label, samples, metric, fitGrowth(worst)),
+    );
   }
+  box.appendChild(charts);
+
+  const rows = ANALYSIS_DISTRIBUTIONS.map((distribution, k) => {
+    const runs = samples.filter(
+      (sample) => sample.distribution === distribution,
+    );
+    if (runs.length === 0) return '';
+    const fits = analysisMetrics.map(([metric]) =>
+      bestFitName(runs.map(({ n, counts }) => ({ n, count: counts[metric] }))),
+    );
+    return `<tr><td style="color: ${distributionColours[k]}">${distribution}</td><td>${fits.join('</td><td>')}</td></tr>`;
+  });
+  const worstFits = analysisMetrics.map(([metric]) =>
+    bestFitName(worstCase(samples, metric)),
+  );
+  const table = document.createElement('table');
+  table.innerHTML =
+    '<tr><th>Input</th><th>Comparisons</th><th>Accesses</th></tr>' +
+    rows.join('') +
+    `<tr class="worst"><td>Worst case</td><td>${worstFits.join('</td><td>')}</td></tr>`;
+  box.appendChild(table);
+  box.style.display = 'block';
+}
 
-  for (let i = n - 1; i > 0; i--) {
-    if (interruptRequested) break;
-    swapValues(0, i);
-    adjustBlockHeight(0);
-    adjustBlockHeight(i);
-    await heapify(i, 0);
-    updateStatistics();
+/**
+ * Plot one counter against n: a line of points per input, and the growth
+ * classes (dashed, in the legend's order) scaled to the worst case
+ */
+function drawGrowthChart(
+  label: string,
+  samples: GrowthSample[],
+  metric: 'comparisons' | 'arrayAccesses',
+  fits: GrowthFit[],
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = ANALYSIS_WIDTH;
+  canvas.height = ANALYSIS_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) return canvas;
+
+  const left = 4;
+  const top = 16;
+  const width = ANALYSIS_WIDTH - 8;
+  const height = ANALYSIS_HEIGHT - 40;
+  const maxN = Math.max(...ANALYSIS_SIZES);
+  const maxCount = Math.max(1, ...samples.map(({ counts }) => counts[metric]));
+  const x = (n: number) => left + (n / maxN) * width;
+  const y = (count: number) =>
+    top + height - (Math.min(count, maxCount) / maxCount) * height;
+
+  context.font = '11px Arial, sans-serif';
+  context.fillStyle = 'white';
+  context.fillText(`${label} (max ${maxCount})`, left, 11);
+  context.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+  context.beginPath();
+  context.moveTo(left, top + height + 0.5);
+  context.lineTo(left + width, top + height + 0.5);
+  context.stroke();
+  context.fillText(`n = ${maxN}`, left + width - 50, top + height + 12);
+
+  // Fitted curves, clipped at the top of the chart
+  context.setLineDash([4, 3]);
+  for (const { growth, scale } of fits) {
+    context.strokeStyle = growthColours[growthClasses.indexOf(growth)];
+    context.beginPath();
+    for (let px = 0; px <= width; px += 2) {
+      const n = Math.max(1, (px / width) * maxN);
+      const py = y(scale * growth.curve(n));
+      if (px === 0) context.moveTo(left + px, py);
+      else context.lineTo(left + px, py);
+    }
+    context.stroke();
   }
+  context.setLineDash([]);
+
+  ANALYSIS_DISTRIBUTIONS.forEach((distribution, k) => {
+    const runs = samples.filter(
+      (sample) => sample.distribution === distribution,
+    );
+    context.strokeStyle = context.fillStyle = distributionColours[k];
+    context.beginPath();
+    runs.forEach(({ n, counts }, index) => {
+      if (index === 0) context.moveTo(x(n), y(counts[metric]));
+      else context.lineTo(x(n), y(counts[metric]));
+    });
+    context.stroke();
+    for (const { n, counts } of runs) {
+      context.fillRect(x(n) - 2, y(counts[metric]) - 2, 4, 4);
+    }
+  });
 
-  if (!interruptRequested) {
-    finishTimestamp = performance.now();
-    updateStatistics();
-    await highlightSorted();
-  }
-  isSorting = false;
+  // Legend, best fit first
+  let legendX = left;
+  fits.forEach(({ growth }, rank) => {
+    context.fillStyle = growthColours[growthClasses.indexOf(growth)];
+    const text = rank === 0 ? `${growth.name} (best)` : growth.name;
+    context.fillText(text, legendX, ANALYSIS_HEIGHT - 4);
+    legendX += context.measureText(text).width + 12;
+  });
+  return canvas;
 }
 
-async function heapify(n: number, i: number): Promise<void> {
-  if (interruptRequested) return;
+/**
+ * ================
+ * Heap Tree View
+ * ================
+ *
+ * While a heap is being sorted, the shown algorithm's heap is also drawn as
+ * a binary tree, with the sorted elements after it faded out. Picking a node
+ * labels its block, and picking a block outlines its node.
+ */
+
+/** Levels of the tree drawn; deeper nodes are left out */
+const HEAP_VIEW_LEVELS = 6;
+const HEAP_VIEW_WIDTH = 480;
+const HEAP_VIEW_LEVEL_HEIGHT = 34;
+
+/** Centre of heap node k in the tree view */
+function heapNodePosition(k: number): { x: number; y: number } {
+  const level = Math.floor(Math.log2(k + 1));
+  const across = k + 1 - 2 ** level;
+  return {
+    x: ((across + 0.5) * HEAP_VIEW_WIDTH) / 2 ** level,
+    y: 18 + level * HEAP_VIEW_LEVEL_HEIGHT,
+  };
+}
 
-  let largest = i;
-  const left = 2 * i + 1;
-  const right = 2 * i + 2;
+/**
+ * Draw the shown algorithm's heap as a tree, or hide the view when there is
+ * none. A swap between two drawn nodes slides them along the edge between.
+ */
+function renderHeapView(): void {
+  const view = document.getElementById('heap-view');
+  if (!view) return;
+  const lane = shownLane();
+  const trace = shownTrace();
+  const range = trace?.markers.heap;
+  if (!lane || !trace || !range) {
+    view.style.display = 'none';
+    return;
+  }
 
-  if (left < n) {
-    comparisonCount++;
-    arrayAccessCount += 2;
-    playTone(dataset[left]);
-    playTone(dataset[largest]);
-    if (dataset[left] > dataset[largest]) {
-      largest = left;
+  const { low, high, size } = range;
+  const nodes = Math.min(high - low + 1, 2 ** HEAP_VIEW_LEVELS - 1);
+  const levels = Math.floor(Math.log2(nodes)) + 1;
+  const height = 18 + (levels - 1) * HEAP_VIEW_LEVEL_HEIGHT + 18;
+
+  // The nodes the latest swap exchanged, each sliding in from the other
+  const last = lastOp(trace);
+  const moved = new Map<number, number>();
+  if (last?.type === 'swap') {
+    const [p, q] = [last.i - low, last.j - low];
+    if (p >= 0 && q >= 0 && p < nodes && q < nodes) {
+      moved.set(p, q);
+      moved.set(q, p);
     }
   }
+  const duration = Math.max(60, Math.min(interval * 4, 400));
+
+  const edges: string[] = [];
+  const circles: string[] = [];
+  for (let k = 0; k < nodes; k++) {
+    const { x, y } = heapNodePosition(k);
+    const inHeap = k < size;
+    if (k > 0) {
+      const parent = heapNodePosition(Math.floor((k - 1) / 2));
+      const swapped = moved.get(k) === Math.floor((k - 1) / 2);
+      const edgeClass = swapped ? 'swapped' : inHeap ? '' : 'sorted';
+      edges.push(
+        `<line class="${edgeClass}" x1="${parent.x}" y1="${parent.y}" x2="${x}" y2="${y}" />`,
+      );
+    }
 
-  if (right < n) {
-    comparisonCount++;
-    arrayAccessCount += 2;
-    playTone(dataset[right]);
-    playTone(dataset[largest]);
-    if (dataset[right] > dataset[largest]) {
-      largest = right;
+    const level = Math.floor(Math.log2(k + 1));
+    const radius = level < 4 ? 12 : level < 5 ? 8 : 5;
+    const index = low + k;
+    const from = moved.get(k);
+    let motion = '';
+    if (from !== undefined) {
+      const start = heapNodePosition(from);
+      motion = ` class="moving" style="--dx: ${start.x - x}px; --dy: ${start.y - y}px; --duration: ${duration}ms"`;
     }
+    const nodeClass = [
+      inHeap ? 'heap' : 'sorted',
+      index === selectedBlock ? 'selected' : '',
+    ].join(' ');
+    const label =
+      radius >= 8 ? `<text>${formatNodeValue(lane.values[index])}</text>` : '';
+    circles.push(
+      `<g class="${nodeClass}" data-index="${index}" transform="translate(${x} ${y})">` +
+        `<g${motion}><circle r="${radius}" />${label}</g></g>`,
+    );
   }
 
-  if (largest !== i) {
-    swapValues(i, largest);
-    adjustBlockHeight(i);
-    adjustBlockHeight(largest);
-    highlightBlock(i, 0xff0000);
-    highlightBlock(largest, 0xff0000);
-    interval = Math.max(1, 100 / config.speed);
-    await wait(interval);
-    clearBlockHighlight(i);
-    clearBlockHighlight(largest);
-    await heapify(n, largest);
-    updateStatistics();
+  view.style.display = 'block';
+  view.innerHTML =
+    `<svg width="${HEAP_VIEW_WIDTH}" height="${height}" viewBox="0 0 ${HEAP_VIEW_WIDTH} ${height}">` +
+    edges.join('') +
+    circles.join('') +
+    '</svg>' +
+    (high - low + 1 > nodes
+      ? `<div>Top ${HEAP_VIEW_LEVELS} levels of ${size} heap elements</div>`
+      : '');
+}
+
+/** A value short enough to fit in a tree node */
+function formatNodeValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toPrecision(3);
+}
+
+/** Label a block (null to clear it) and outline its node in the tree view */
+function selectBlock(index: number | null): void {
+  selectedBlock = index;
+  const lane = shownLane();
+  if (lane) renderPointers(lane);
+  renderHeapView();
+}
+
+/**
+ * The block of the shown lane under a point on the canvas, if any. Heights
+ * are applied in the shader, so rather than raycasting the mesh, find where
+ * the ray crosses the lane's plane and check it against the block there.
+ */
+function blockAtPointer(clientX: number, clientY: number): number | null {
+  const lane = shownLane();
+  if (!lane || lane.values.length === 0) return null;
+  const bounds = renderer.domElement.getBoundingClientRect();
+  pickPointer.set(
+    ((clientX - bounds.left) / bounds.width) * 2 - 1,
+    -((clientY - bounds.top) / bounds.height) * 2 + 1,
+  );
+  pickRaycaster.setFromCamera(pickPointer, camera);
+
+  // Block positions are evenly spaced, so two of them give the spacing
+  lane.mesh.getMatrixAt(0, linkMatrix);
+  const first = new THREE.Vector3().setFromMatrixPosition(linkMatrix);
+  let spacing = 1;
+  if (lane.values.length > 1) {
+    lane.mesh.getMatrixAt(1, linkMatrix);
+    spacing = linkEnd.setFromMatrixPosition(linkMatrix).x - first.x;
   }
+
+  pickPlane.set(new THREE.Vector3(0, 0, 1), -first.z);
+  const hit = pickRaycaster.ray.intersectPlane(pickPlane, linkEnd);
+  if (!hit) return null;
+  const index = Math.round((hit.x - first.x) / spacing);
+  if (index < 0 || index >= lane.values.length) return null;
+
+  const blockHeight = blockAttribute(lane.mesh, 'instanceHeight').getX(index);
+  const bottom = first.y + Math.min(0, blockHeight);
+  const top = first.y + Math.max(0, blockHeight);
+  return hit.y >= bottom && hit.y <= top ? index : null;
 }
 
-/** Radix Sort */
-async function doRadixSort(): Promise<void> {
-  if (isSorting) return;
-  isSorting = true;
-  interruptRequested = false;
-  arrayAccessCount = 0;
-  comparisonCount = 0;
-  startTimestamp = performance.now();
-  finishTimestamp = null;
-  updateStatistics();
+/** Pick blocks by clicking them, or their nodes in the tree view */
+function initializeBlockPicking(): void {
+  // A click that drags is the camera being moved, not a pick
+  let downX = 0;
+  let downY = 0;
+  renderer.domElement.addEventListener('pointerdown', (event) => {
+    downX = event.clientX;
+    downY = event.clientY;
+  });
+  renderer.domElement.addEventListener('pointerup', (event) => {
+    if (Math.hypot(event.clientX - downX, event.clientY - downY) > 4) return;
+    selectBlock(blockAtPointer(event.clientX, event.clientY));
+  });
 
-  const maxVal = Math.max(...dataset);
-  let exp = 1;
+  document.getElementById('heap-view')?.addEventListener('click', (event) => {
+    const node = (event.target as Element).closest<SVGGElement>('[data-index]');
+    if (!node) return;
+    const index = Number(node.dataset.index);
+    selectBlock(index === selectedBlock ? null : index);
+  });
+}
 
-  while (Math.floor(maxVal / exp) > 0 && !interruptRequested) {
-    await countingSortDigit(exp);
-    exp *= 10;
-    updateStatistics();
+/**
+ * ================
+ * Trace Playback
+ * ================
+ */
+
+/** Indexes an operation touches, used for highlighting and audio */
+function opIndexes(op: SortOp): number[] {
+  switch (op.type) {
+    case 'compare':
+      if (op.aux === 'both') return [];
+      return op.aux === 'i' ? [op.j] : [op.i, op.j];
+    case 'swap':
+      return [op.i, op.j];
+    case 'write':
+    case 'read':
+      return [op.index];
+    case 'pivot':
+    case 'mark':
+      return op.index === null ? [] : [op.index];
+    case 'stash':
+      return op.from === null ? [] : [op.from];
+    case 'unstash':
+      return [op.index];
+    case 'phase':
+    case 'release':
+    case 'gap':
+    case 'buckets':
+    case 'merging':
+    case 'heap':
+      return [];
+    case 'layer':
+      return op.pairs.flat();
+    case 'enter':
+    case 'exit':
+      return [op.low, op.high];
+  }
+}
+
+/** Indexes whose values an operation sounds */
+function voicedIndexes(op: SortOp): number[] {
+  const indexes = opIndexes(op);
+  // A whole network layer at once would be a chord of hundreds of tones
+  return op.type === 'layer' ? indexes.slice(0, 2) : indexes;
+}
+
+/** Highlight the given indexes in red, plus the lane's pivot and marker */
+function renderHighlights(
+  lane: Lane,
+  indexes: number[],
+  color = 0xff0000,
+): void {
+  lane.highlightedIndexes.forEach((index) => clearBlockHighlight(lane, index));
+  lane.highlightedIndexes = [...indexes];
+  renderSlotHighlights(lane, []);
+  renderLinks(lane, []);
+  indexes.forEach((index) => highlightBlock(lane, index, color));
+
+  if (!lane.trace) return;
+  const { pivot, mark } = lane.trace.markers;
+  if (pivot !== null) {
+    highlightBlock(lane, pivot, 0x0000ff);
+    lane.highlightedIndexes.push(pivot);
+  }
+  if (mark !== null) {
+    highlightBlock(lane, mark, 0x00ff00);
+    lane.highlightedIndexes.push(mark);
   }
 
-  if (!interruptRequested) {
-    finishTimestamp = performance.now();
-    updateStatistics();
-    await highlightSorted();
+  // Where each run being merged starts, and where the second one ends
+  const { merging } = lane.trace.markers;
+  if (merging) {
+    const [left, mid, right] = merging;
+    [left, mid + 1, right].forEach((index) => {
+      highlightBlock(lane, index, 0x00ffff);
+      lane.highlightedIndexes.push(index);
+    });
   }
-  isSorting = false;
 }
 
-async function countingSortDigit(exp: number): Promise<void> {
-  if (interruptRequested) return;
+/** Highlight the given auxiliary slots in red, clearing the previous ones */
+function renderSlotHighlights(lane: Lane, slots: number[]): void {
+  const highlights = blockAttribute(lane.auxMesh, 'instanceHighlight');
+  lane.highlightedSlots.forEach((slot) => highlights.setW(slot, 0));
+  lane.highlightedSlots = [...slots];
+  const { r, g, b } = highlightColor.setHex(0xff0000);
+  slots.forEach((slot) => highlights.setXYZW(slot, r, g, b, 1));
+  highlights.needsUpdate = true;
+}
+
+/** Auxiliary slots an operation compares, drawn under the array */
+function opSlots(op: SortOp): number[] {
+  if (op.type !== 'compare' || !op.aux) return [];
+  return op.aux === 'i' ? [op.i] : [op.i, op.j];
+}
+
+/** Operations that count towards a tick when played, as opposed to bookkeeping */
+function isVisibleOp(op: SortOp): boolean {
+  switch (op.type) {
+    case 'compare':
+    case 'swap':
+    case 'write':
+    case 'layer':
+    case 'stash':
+    case 'unstash':
+    case 'release':
+      return true;
+    default:
+      return false;
+  }
+}
 
-  const n = dataset.length;
-  const output = new Array(n).fill(0);
-  const count = new Array(10).fill(0);
+/** Operations applied per animation tick, so large arrays finish in time */
+function opsPerTick(): number {
+  return Math.max(1, Math.floor(originalDataset.length / 100));
+}
 
-  for (let i = 0; i < n; i++) {
-    arrayAccessCount++;
-    playTone(dataset[i]);
-    count[Math.floor(dataset[i] / exp) % 10]++;
+/** Reflect an operation that was just stepped (in either direction) */
+function renderOp(lane: Lane, op: SortOp, withSound = true): void {
+  if (op.type === 'swap') {
+    updateBlock(lane, op.i);
+    updateBlock(lane, op.j);
+  } else if (op.type === 'write') {
+    updateBlock(lane, op.index);
+  } else if (op.type === 'layer') {
+    op.pairs.forEach((pair, idx) => {
+      if (op.swapped[idx]) pair.forEach((index) => updateBlock(lane, index));
+    });
+  } else if (op.type === 'stash' || op.type === 'release') {
+    updateAuxSlot(lane, op.slot);
+  } else if (op.type === 'unstash') {
+    updateBlock(lane, op.index);
+    updateAuxSlot(lane, op.slot);
+  } else if (op.type === 'gap') {
+    // A new gap regroups every block into different chains
+    lane.values.forEach((_, index) => updateBlock(lane, index));
   }
 
-  for (let i = 1; i < 10; i++) {
-    count[i] += count[i - 1];
+  const indexes = opIndexes(op);
+  // Elements compared in buffers are highlighted (and heard) where they are
+  const slots = opSlots(op);
+  if (withSound) {
+    voicedIndexes(op).forEach((index) =>
+      soundTone(lane.values[index], toneKind(op)),
+    );
+    slots.forEach((slot) => {
+      const value = lane.trace?.aux[slot] ?? null;
+      if (value !== null) soundTone(value, 'compare');
+    });
   }
+  const isRange = op.type === 'enter' || op.type === 'exit';
+  renderHighlights(lane, indexes, isRange ? 0xff00ff : 0xff0000);
+  renderSlotHighlights(lane, slots);
+  if (op.type === 'layer') renderLinks(lane, op.pairs);
+}
+
+/** True while the lanes hold a recorded run */
+function hasRun(): boolean {
+  return lanes.length > 0 && lanes[0].trace !== null;
+}
+
+/** True once every lane has played its whole trace */
+function isRunComplete(): boolean {
+  return lanes.every(({ trace }) => trace && isTraceComplete(trace));
+}
+
+/**
+ * Timeline position, which is the most work any lane has done: the timeline
+ * is measured in work, as playback is, so racers stay level as it is scrubbed
+ */
+function runPosition(): number {
+  return Math.max(
+    0,
+    ...lanes.map(({ trace }) => (trace ? traceCost(trace) : 0)),
+  );
+}
+
+/** Sync the timeline scrubber with the work the lanes have done */
+function updateTimeline(): void {
+  lanes.forEach((lane) => {
+    if (!lane.trace) return;
+    lane.furthestCost = Math.max(lane.furthestCost, traceCost(lane.trace));
+  });
+  const length = Math.max(
+    1,
+    ...lanes.map(({ trace, furthestCost }) => (trace ? furthestCost : 0)),
+  );
+  config.timeline = runPosition();
+  timelineController.max(length);
+  timelineController.updateDisplay();
+}
 
-  for (let i = n - 1; i >= 0; i--) {
-    arrayAccessCount++;
-    playTone(dataset[i]);
-    const index = Math.floor(dataset[i] / exp) % 10;
-    output[count[index] - 1] = dataset[i];
-    arrayAccessCount++;
-    count[index]--;
+/**
+ * Look up an algorithm with the options chosen for it in the GUI, drawing
+ * any random choices it makes from `random`
+ */
+function configuredAlgorithm(
+  name: string,
+  random = Math.random,
+): SortAlgorithm {
+  if (name === 'Quick Sort') {
+    return (a) =>
+      quickSort(a, {
+        pivotChoice: config.quickPivot,
+        partition: config.quickPartition,
+        random,
+      });
+  }
+  if (name === 'Merge Sort') {
+    return (a) => mergeSort(a, { variant: config.mergeVariant });
+  }
+  if (name === 'Shell Sort') {
+    return (a) => shellSort(a, { gaps: config.shellGaps });
+  }
+  if (name === 'Radix Sort') {
+    return (a) =>
+      radixSort(a, { base: config.radixBase, mode: config.radixMode });
   }
+  return sortAlgorithms[name];
+}
 
-  for (let i = 0; i < n; i++) {
-    if (interruptRequested) break;
-    dataset[i] = output[i];
-    arrayAccessCount += 2;
-    playTone(dataset[i]);
-    adjustBlockHeight(i);
-    highlightBlock(i, 0xff0000);
-    interval = Math.max(1, 100 / config.speed);
-    await wait(interval);
-    clearBlockHighlight(i);
-    updateStatistics();
+/**
+ * Start recording every lane's algorithm over its data. Returns false if
+ * one of them cannot sort it.
+ */
+function createRun(): boolean {
+  if (sortBlocked()) return false;
+  syncLanes();
+
+  // Racers all start from the same input, whatever a previous race left
+  if (lanes.length > 1) {
+    lanes.forEach((lane) => {
+      originalDataset.forEach((value, index) => {
+        lane.values[index] = value;
+        updateBlock(lane, index);
+      });
+    });
   }
+  lanes.forEach((lane) => {
+    lane.trace = createTrace(configuredAlgorithm(lane.algorithm), lane.values);
+    lane.furthestCost = 0;
+    lane.finishElapsed = null;
+    lane.verification = null;
+    resetLaneTints(lane);
+  });
+
+  runId++;
+  elapsedBeforePause = 0;
+  resumeTimestamp = null;
+  updateStatistics();
+  updateTimeline();
+  return true;
 }
 
-/** Shell Sort */
-async function doShellSort(): Promise<void> {
-  if (isSorting) return;
-  isSorting = true;
-  interruptRequested = false;
-  arrayAccessCount = 0;
-  comparisonCount = 0;
-  startTimestamp = performance.now();
-  finishTimestamp = null;
+/** Forget the current run, e.g. once its data or algorithm changes */
+function clearRun(): void {
+  lanes.forEach((lane) => {
+    lane.trace = null;
+    lane.finishElapsed = null;
+    lane.verification = null;
+    resetLaneTints(lane);
+    renderHighlights(lane, []);
+  });
+  runId++;
+  elapsedBeforePause = 0;
+  resumeTimestamp = null;
   updateStatistics();
+  updateTimeline();
+}
 
-  const n = dataset.length;
-  for (let gap = Math.floor(n / 2); gap > 0; gap = Math.floor(gap / 2)) {
-    if (interruptRequested) break;
-    for (let i = gap; i < n; i++) {
-      if (interruptRequested) break;
-      const temp = dataset[i];
-      arrayAccessCount++;
-      playTone(temp);
-      let j = i;
-
-      highlightBlock(i, 0xff0000);
-
-      while (j >= gap && !interruptRequested) {
-        comparisonCount++;
-        arrayAccessCount += 2;
-        playTone(dataset[j - gap]);
-        playTone(temp);
-
-        if (dataset[j - gap] > temp) {
-          dataset[j] = dataset[j - gap];
-          arrayAccessCount += 2;
-          adjustBlockHeight(j);
-          highlightBlock(j, 0xff0000);
-          interval = Math.max(1, 100 / config.speed);
-          await wait(interval);
-          clearBlockHighlight(j);
-          j -= gap;
-        } else {
-          break;
+/** Finishing touches once every operation in the trace has been played */
+async function finishRun(): Promise<void> {
+  lanes.forEach((lane) => renderHighlights(lane, []));
+  updateStatistics();
+  await highlightSorted();
+  lanes.forEach(renderVerification);
+}
+
+/**
+ * Advance the lanes that have done the least work so far, each up to and
+ * including its next operation that costs anything. Racers so stay level on
+ * work done rather than on operations, which include free bookkeeping.
+ */
+function stepRace(): { lane: Lane; op: SortOp }[] {
+  const moved: { lane: Lane; op: SortOp }[] = [];
+  // A lane can turn out to have nothing left, leaving the others to move
+  while (moved.length === 0) {
+    const running = lanes.filter(({ trace }) => !isTraceComplete(trace!));
+    if (running.length === 0) break;
+    const least = Math.min(...running.map(({ trace }) => traceCost(trace!)));
+    running
+      .filter(({ trace }) => traceCost(trace!) === least)
+      .forEach((lane) => {
+        let op: SortOp | null;
+        while ((op = stepForward(lane.trace!))) {
+          moved.push({ lane, op });
+          if (traceCost(lane.trace!) !== least) break;
         }
-        updateStatistics();
-      }
+      });
+  }
+  return moved;
+}
 
-      dataset[j] = temp;
-      arrayAccessCount++;
-      adjustBlockHeight(j);
-      clearBlockHighlight(i);
-      updateStatistics();
+/**
+ * Undo a trace's operations since its latest one that cost anything, and
+ * return them oldest first
+ */
+function undoBookkeeping(trace: Trace): SortOp[] {
+  const undone: SortOp[] = [];
+  const cost = traceCost(trace);
+  let op: SortOp | null;
+  while ((op = stepBack(trace))) {
+    if (traceCost(trace) !== cost) {
+      stepForward(trace);
+      break;
     }
+    undone.unshift(op);
   }
+  return undone;
+}
+
+/**
+ * Take back the last step of the lanes that have done the most work, the
+ * reverse of stepRace: each undoes its latest operation that cost anything
+ * along with the bookkeeping before it, or, if there has been bookkeeping
+ * since (as at the end of a run), just that. The undone operations are
+ * returned oldest first.
+ */
+function stepRaceBack(): { lane: Lane; op: SortOp }[] {
+  const undone: { lane: Lane; op: SortOp }[] = [];
+  const most = runPosition();
+  lanes
+    .filter(({ trace }) => traceCost(trace!) === most)
+    .forEach((lane) => {
+      const trace = lane.trace!;
+      let ops = undoBookkeeping(trace);
+      if (ops.length === 0) {
+        const op = stepBack(trace);
+        if (op) ops = [...undoBookkeeping(trace), op];
+      }
+      ops.forEach((op) => undone.push({ lane, op }));
+    });
+  return undone;
+}
 
-  if (!interruptRequested) {
-    finishTimestamp = performance.now();
-    updateStatistics();
-    await highlightSorted();
+/**
+ * Move a lane to just after the operation that brings its work up to `cost`,
+ * along with any bookkeeping before its next costly one. A lane that
+ * finishes with less work is left at its end.
+ */
+function seekCost(trace: Trace, cost: number): void {
+  // Back to before the work reached `cost`, then forward to where it does
+  while (traceCost(trace) >= cost) {
+    if (!stepBack(trace)) break;
+  }
+  while (traceCost(trace) < cost) {
+    if (!stepForward(trace)) break;
+  }
+  const reached = traceCost(trace);
+  while (stepForward(trace)) {
+    if (traceCost(trace) !== reached) {
+      stepBack(trace);
+      break;
+    }
   }
-  isSorting = false;
 }
 
-/** Cocktail Shaker Sort */
-async function doCocktailShakerSort(): Promise<void> {
-  if (isSorting) return;
+/**
+ * Play every lane forward at the configured speed until all of them end or
+ * playback is paused. Lanes advance together by work done (see stepRace),
+ * so a race is decided by how much work each algorithm does.
+ */
+async function playRun(): Promise<void> {
+  const playingRun = runId;
   isSorting = true;
   interruptRequested = false;
-  arrayAccessCount = 0;
-  comparisonCount = 0;
-  startTimestamp = performance.now();
-  finishTimestamp = null;
-  updateStatistics();
+  resumeTimestamp = performance.now();
+
+  try {
+    const batch = opsPerTick();
+    let pending = 0;
+    while (!interruptRequested) {
+      const moved = stepRace();
+      if (moved.length === 0) break;
+
+      // Bookkeeping (reads, markers, ranges) shows together with the next
+      // step, and large arrays apply a batch of visible steps per tick
+      const isVisible = moved.some(({ op }) => isVisibleOp(op));
+      // A network layer already fires a batch of comparators, so it is a tick
+      const isLayer = moved.some(({ op }) => op.type === 'layer');
+      const endsTick = isVisible && (++pending >= batch || isLayer);
+
+      // Only one lane is heard, otherwise a race is a wall of noise: the
+      // shown one, or whichever moved while it waits for the others
+      const shown = shownLane();
+      const heard = moved.some(({ lane }) => lane === shown)
+        ? shown
+        : moved[0].lane;
+      moved.forEach(({ lane, op }) => {
+        renderOp(lane, op, lane === heard && (endsTick || batch === 1));
+      });
+      lanes.forEach((lane) => {
+        updateLaneResult(lane);
+        if (lanes.length > 1 && isTraceComplete(lane.trace!)) {
+          renderHighlights(lane, []);
+        }
+      });
 
-  let swapped = true;
-  let start = 0;
-  let end = dataset.length - 1;
-
-  while (swapped && !interruptRequested) {
-    swapped = false;
-    for (let i = start; i < end; i++) {
-      if (interruptRequested) break;
-      highlightBlock(i, 0xff0000);
-      highlightBlock(i + 1, 0xff0000);
-      interval = Math.max(1, 100 / config.speed);
-      await wait(interval);
-
-      comparisonCount++;
-      arrayAccessCount += 2;
-      playTone(dataset[i]);
-      playTone(dataset[i + 1]);
-
-      if (dataset[i] > dataset[i + 1]) {
-        swapValues(i, i + 1);
-        adjustBlockHeight(i);
-        adjustBlockHeight(i + 1);
-        swapped = true;
+      if (endsTick) {
+        pending = 0;
+        updateStatistics();
+        updateTimeline();
+        interval = Math.max(1, 100 / config.speed);
+        await wait(interval);
       }
-      clearBlockHighlight(i);
-      clearBlockHighlight(i + 1);
-      updateStatistics();
     }
-    if (!swapped) break;
-    swapped = false;
-    end--;
-
-    for (let i = end - 1; i >= start; i--) {
-      if (interruptRequested) break;
-      highlightBlock(i, 0xff0000);
-      highlightBlock(i + 1, 0xff0000);
-      interval = Math.max(1, 100 / config.speed);
-      await wait(interval);
-
-      comparisonCount++;
-      arrayAccessCount += 2;
-      playTone(dataset[i]);
-      playTone(dataset[i + 1]);
-
-      if (dataset[i] > dataset[i + 1]) {
-        swapValues(i, i + 1);
-        adjustBlockHeight(i);
-        adjustBlockHeight(i + 1);
-        swapped = true;
-      }
-      clearBlockHighlight(i);
-      clearBlockHighlight(i + 1);
+    updateTimeline();
+
+    // A stopped or reset run has already been discarded, so leave its stats be
+    if (runId === playingRun) {
+      pauseClock();
       updateStatistics();
     }
-    start++;
+    if (!interruptRequested) {
+      await finishRun();
+    }
+  } catch (err) {
+    // An algorithm that throws ends the run, but the controls must still work
+    if (runId === playingRun) pauseClock();
+    config.statusMessage = (err as Error).message;
+  } finally {
+    isSorting = false;
   }
+}
 
-  if (!interruptRequested) {
-    finishTimestamp = performance.now();
-    updateStatistics();
-    await highlightSorted();
-  }
-  isSorting = false;
+/**
+ * Wait until a run asked to stop has stopped, so that a control used straight
+ * after Pause, Stop or Reset is not turned away as if it were still playing
+ */
+async function settlePlayback(): Promise<void> {
+  if (interruptRequested) await playback;
 }
 
-/** Gnome Sort */
-async function doGnomeSort(): Promise<void> {
+/**
+ * Take one step in every lane, as playback does (see stepRace), starting a
+ * new run if there is none
+ */
+async function stepSorterForward(): Promise<void> {
+  await settlePlayback();
   if (isSorting) return;
-  isSorting = true;
-  interruptRequested = false;
-  arrayAccessCount = 0;
-  comparisonCount = 0;
-  startTimestamp = performance.now();
-  finishTimestamp = null;
+  if (!hasRun() && !createRun()) return;
+  const moved = stepRace();
+  moved.forEach(({ lane, op }) => renderOp(lane, op, lane === shownLane()));
+  lanes.forEach((lane) => {
+    updateLaneResult(lane);
+    const hasMoved = moved.some((step) => step.lane === lane);
+    if (!hasMoved && isTraceComplete(lane.trace!)) {
+      renderHighlights(lane, []);
+      renderVerification(lane);
+    }
+  });
   updateStatistics();
+  updateTimeline();
+}
 
-  let idx = 0;
-  const n = dataset.length;
+/** Take back the last step of the lanes that have done the most work */
+async function stepSorterBack(): Promise<void> {
+  await settlePlayback();
+  if (isSorting || !hasRun()) return;
+  stepRaceBack().forEach(({ lane, op }) =>
+    renderOp(lane, op, lane === shownLane()),
+  );
+  lanes.forEach(updateLaneResult);
+  updateStatistics();
+  updateTimeline();
+}
 
-  while (idx < n && !interruptRequested) {
-    if (idx === 0) {
-      idx++;
-    }
-    highlightBlock(idx, 0xff0000);
-    highlightBlock(idx - 1, 0xff0000);
-    interval = Math.max(1, 100 / config.speed);
-    await wait(interval);
-
-    comparisonCount++;
-    arrayAccessCount += 2;
-    playTone(dataset[idx]);
-    playTone(dataset[idx - 1]);
-
-    if (dataset[idx] >= dataset[idx - 1]) {
-      clearBlockHighlight(idx);
-      clearBlockHighlight(idx - 1);
-      idx++;
-    } else {
-      swapValues(idx, idx - 1);
-      adjustBlockHeight(idx);
-      adjustBlockHeight(idx - 1);
-      clearBlockHighlight(idx);
-      clearBlockHighlight(idx - 1);
-      idx--;
-    }
-    updateStatistics();
+/** Jump to a position on the timeline, an amount of work done */
+function seekSorter(position: number): void {
+  if (!hasRun()) return;
+  // Scrubbing takes over from playback, which stops before its next step
+  pauseSorter();
+  lanes.forEach((lane) => {
+    const trace = lane.trace!;
+    seekCost(trace, position);
+    lane.values.forEach((_, index) => updateBlock(lane, index));
+    renderAux(lane);
+
+    const last = lastOp(trace);
+    renderHighlights(lane, last ? opIndexes(last) : []);
+    updateLaneResult(lane);
+  });
+  updateStatistics();
+  updateTimeline();
+}
+
+/**
+ * ==============
+ * Audio Export
+ * ==============
+ */
+
+/** Longest recording exported, so a slow tempo cannot exhaust memory */
+const MAX_EXPORT_SECONDS = 300;
+
+/**
+ * Render the tones the chosen algorithm makes sorting the current data, one
+ * step every 1/tempo seconds, and download them as a WAV file. Random
+ * pivots come from a fixed seed, so the same settings give the same file.
+ */
+function exportAudio(): void {
+  const name = config.chosenAlgo;
+  const restriction = inputRestrictions[name]?.(originalDataset) ?? null;
+  if (restriction) {
+    config.statusMessage = restriction;
+    return;
   }
 
-  if (!interruptRequested) {
-    finishTimestamp = performance.now();
-    updateStatistics();
-    await highlightSorted();
+  const algorithm = configuredAlgorithm(name, seededRandom(1));
+  const events = toneEvents(algorithm, config.exportTempo);
+  if (!events) {
+    config.statusMessage =
+      `The audio would last over the ${MAX_EXPORT_SECONDS}s limit: ` +
+      'raise the tempo or shrink the array';
+    return;
   }
-  isSorting = false;
+
+  const samples = renderTones(events, toneRange, config);
+  const blob = new Blob([encodeWav(samples, EXPORT_SAMPLE_RATE)], {
+    type: 'audio/wav',
+  });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${name.toLowerCase().replace(/\W+/g, '-')}-${originalDataset.length}.wav`;
+  link.click();
+  // Let the download start before its URL goes away
+  setTimeout(() => URL.revokeObjectURL(link.href));
+  const length = samples.length / EXPORT_SAMPLE_RATE;
+  config.statusMessage = `Exported ${length.toFixed(1)}s of audio`;
+}
+
+/**
+ * The tones of a whole run over the current data, timed at `tempo` steps/s,
+ * or null once they run past the length limit. As in playback, bookkeeping
+ * takes no time of its own and sounds with the step after it. The algorithm
+ * runs directly rather than recorded, its buffers followed from the ops.
+ */
+function toneEvents(
+  algorithm: SortAlgorithm,
+  tempo: number,
+): ToneEvent[] | null {
+  const values = originalDataset.slice();
+  const aux = new Map<number, number>();
+  const events: ToneEvent[] = [];
+  let step = 0;
+  for (const op of algorithm(values)) {
+    const time = step / tempo;
+    if (time > MAX_EXPORT_SECONDS) return null;
+    if (isVisibleOp(op)) step++;
+    if (op.type === 'stash') aux.set(op.slot, op.value);
+    if (op.type === 'unstash' || op.type === 'release') aux.delete(op.slot);
+
+    // Ops are yielded once applied, so the values are already in place
+    const kind = toneKind(op);
+    for (const index of voicedIndexes(op)) {
+      events.push({ time, value: values[index], kind });
+    }
+    for (const slot of opSlots(op)) {
+      const value = aux.get(slot);
+      if (value !== undefined) events.push({ time, value, kind });
+    }
+  }
+  return events;
 }
 
 /**
@@ -963,18 +2313,39 @@ async function doGnomeSort(): Promise<void> {
  * Custom Shaders (GLSL)
  * ==========================
  */
+/**
+ * Identity tint shared by the fragment shaders: when a block has one, its
+ * colour replaces the shader's own, keeping the shader's light and shade
+ */
+const tintFunction = `
+  vec3 applyTint(vec3 color) {
+    float shade = dot(color, vec3(0.299, 0.587, 0.114));
+    return mix(color, vTint.rgb * (0.6 + 0.4 * shade), vTint.a);
+  }
+`;
+
 const vertexShaderSource = `
+  attribute float instanceHeight;
+  attribute vec4 instanceHighlight;
+  attribute vec4 instanceTint;
   varying vec3 vNormal;
   varying vec3 vViewPosition;
   varying vec2 vUv;
+  varying vec4 vHighlight;
+  varying vec4 vTint;
   const float PI = 3.1415926535897932384626433832795;
   void main() {
     vNormal = normalize(normalMatrix * normal);
-    vec4 viewPos = modelViewMatrix * vec4(position, 1.0);
+    // negative heights hang below the baseline instead of flipping the box
+    float y = position.y * abs(instanceHeight) + min(instanceHeight, 0.0);
+    vec3 scaled = vec3(position.x, y, position.z);
+    vec4 viewPos = modelViewMatrix * instanceMatrix * vec4(scaled, 1.0);
     vViewPosition = viewPos.xyz;
+    vHighlight = instanceHighlight;
+    vTint = instanceTint;
 
     // basic spherical coordinates
-    vec3 nPos = normalize(position);
+    vec3 nPos = normalize(scaled);
     float u = 0.5 + atan(nPos.z, nPos.x) / (2.0 * PI);
     float v = 0.5 - asin(nPos.y) / PI;
     vUv = vec2(u, v);
@@ -1000,8 +2371,9 @@ const phongFragmentShader = `
   uniform float occlusionFactor;
   varying vec3 vNormal;
   varying vec3 vViewPosition;
-  uniform bool useOverrideColor;
-  uniform vec3 overrideColor;
+  varying vec4 vHighlight;
+  varying vec4 vTint;
+  ${tintFunction}
 
   void main() {
     vec3 norm = normalize(vNormal);
@@ -1024,11 +2396,11 @@ const phongFragmentShader = `
     vec3 finalColor = ambient + diffuse + specular + baseLight;
     finalColor = pow(finalColor, vec3(1.0/2.2));
 
-    if (useOverrideColor) {
-      gl_FragColor = vec4(overrideColor, 1.0);
+    if (vHighlight.a > 0.5) {
+      gl_FragColor = vec4(vHighlight.rgb, 1.0);
       return;
     }
-    gl_FragColor = vec4(finalColor, 1.0);
+    gl_FragColor = vec4(applyTint(finalColor), 1.0);
   }
 `;
 
@@ -1038,8 +2410,9 @@ const iridescentFragmentShader = `
   varying vec3 vViewPosition;
   uniform vec3 color1;
   uniform vec3 color2;
-  uniform bool useOverrideColor;
-  uniform vec3 overrideColor;
+  varying vec4 vHighlight;
+  varying vec4 vTint;
+  ${tintFunction}
 
   void main() {
     vec3 norm = normalize(vNormal);
@@ -1049,11 +2422,11 @@ const iridescentFragmentShader = `
     t = smoothstep(0.0, 1.0, t);
     vec3 iColor = mix(color1, color2, t);
 
-    if (useOverrideColor) {
-      gl_FragColor = vec4(overrideColor, 1.0);
+    if (vHighlight.a > 0.5) {
+      gl_FragColor = vec4(vHighlight.rgb, 1.0);
       return;
     }
-    gl_FragColor = vec4(iColor, 1.0);
+    gl_FragColor = vec4(applyTint(iColor), 1.0);
   }
 `;
 
@@ -1066,8 +2439,9 @@ const toonFragmentShader = `
   uniform float lightIntensity;
   uniform int numBands;
   uniform vec3 bandColors[10];
-  uniform bool useOverrideColor;
-  uniform vec3 overrideColor;
+  varying vec4 vHighlight;
+  varying vec4 vTint;
+  ${tintFunction}
 
   void main() {
     vec3 norm = normalize(vNormal);
@@ -1078,11 +2452,11 @@ const toonFragmentShader = `
     idx = clamp(idx, 0, numBands - 1);
     vec3 color = bandColors[idx];
 
-    if (useOverrideColor) {
-      gl_FragColor = vec4(overrideColor, 1.0);
+    if (vHighlight.a > 0.5) {
+      gl_FragColor = vec4(vHighlight.rgb, 1.0);
       return;
     }
-    gl_FragColor = vec4(color, 1.0);
+    gl_FragColor = vec4(applyTint(color), 1.0);
   }
 `;
 
@@ -1091,8 +2465,9 @@ const shaderToyFragmentShader = `
   uniform float iTime;
   uniform float speed;
   varying vec3 vNormal;
-  uniform bool useOverrideColor;
-  uniform vec3 overrideColor;
+  varying vec4 vHighlight;
+  varying vec4 vTint;
+  ${tintFunction}
 
   void main() {
     vec3 norm = normalize(vNormal);
@@ -1105,130 +2480,125 @@ const shaderToyFragmentShader = `
     vec3 col = 0.5 + 0.5 * sin(3.1416 * f + vec3(0.0, 0.5, 1.0));
     col = col * r;
 
-    if (useOverrideColor) {
-      gl_FragColor = vec4(overrideColor, 1.0);
+    if (vHighlight.a > 0.5) {
+      gl_FragColor = vec4(vHighlight.rgb, 1.0);
       return;
     }
-    gl_FragColor = vec4(col, 1.0);
+    gl_FragColor = vec4(applyTint(col), 1.0);
   }
 `;
 
 const flatVertexShader = `
+  attribute float instanceHeight;
+  attribute vec4 instanceHighlight;
+  attribute vec4 instanceTint;
   varying vec3 vNormal;
+  varying vec4 vHighlight;
+  varying vec4 vTint;
   void main() {
     vNormal = normalize(normalMatrix * normal);
-    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    vHighlight = instanceHighlight;
+    vTint = instanceTint;
+    // negative heights hang below the baseline instead of flipping the box
+    float y = position.y * abs(instanceHeight) + min(instanceHeight, 0.0);
+    vec3 scaled = vec3(position.x, y, position.z);
+    gl_Position =
+      projectionMatrix * modelViewMatrix * instanceMatrix * vec4(scaled, 1.0);
   }
 `;
 
 const flatFragmentShader = `
   precision highp float;
   varying vec3 vNormal;
-  uniform bool useOverrideColor;
-  uniform vec3 overrideColor;
+  varying vec4 vHighlight;
+  varying vec4 vTint;
+  ${tintFunction}
 
   void main() {
     vec3 norm = normalize(vNormal);
     vec3 color = norm * 0.5 + 0.5;
-    if (useOverrideColor) {
-      gl_FragColor = vec4(overrideColor, 1.0);
+    if (vHighlight.a > 0.5) {
+      gl_FragColor = vec4(vHighlight.rgb, 1.0);
       return;
     }
-    gl_FragColor = vec4(color, 1.0);
+    gl_FragColor = vec4(applyTint(color), 1.0);
   }
 `;
 
 /** Create/initialize all the available shader materials */
 function initShaderMaterials(): void {
-  const highlightUniforms = {
-    useOverrideColor: { value: false },
-    overrideColor: { value: new THREE.Color(0xffffff) },
-  };
-
   // Phong
   const phongMat = new THREE.ShaderMaterial({
     vertexShader: vertexShaderSource,
     fragmentShader: phongFragmentShader,
-    uniforms: THREE.UniformsUtils.merge([
-      {
-        lightPos: { value: new THREE.Vector3(0, 100, 100) },
-        lightColor: { value: new THREE.Color(1, 1, 1) },
-        lightIntensity: { value: 1.0 },
-        ambientColor: { value: new THREE.Color(0.01, 0.0, 0.0) },
-        diffuseColor: { value: new THREE.Color(0.25, 0.0, 0.0) },
-        specularColor: { value: new THREE.Color(1, 1, 1) },
-        shininess: { value: 50.0 },
-        specularGradient: { value: 0.5 },
-        Ka: { value: 0.3 },
-        Kd: { value: 0.7 },
-        Ks: { value: 0.5 },
-        baseLight: { value: new THREE.Color(0.0, 0.0, 0.0) },
-        occlusionFactor: { value: 0.0 },
-      },
-      highlightUniforms,
-    ]),
+    uniforms: {
+      lightPos: { value: new THREE.Vector3(0, 100, 100) },
+      lightColor: { value: new THREE.Color(1, 1, 1) },
+      lightIntensity: { value: 1.0 },
+      ambientColor: { value: new THREE.Color(0.01, 0.0, 0.0) },
+      diffuseColor: { value: new THREE.Color(0.25, 0.0, 0.0) },
+      specularColor: { value: new THREE.Color(1, 1, 1) },
+      shininess: { value: 50.0 },
+      specularGradient: { value: 0.5 },
+      Ka: { value: 0.3 },
+      Kd: { value: 0.7 },
+      Ks: { value: 0.5 },
+      baseLight: { value: new THREE.Color(0.0, 0.0, 0.0) },
+      occlusionFactor: { value: 0.0 },
+    },
   });
 
   // Iridescent
   const iridescentMat = new THREE.ShaderMaterial({
     vertexShader: vertexShaderSource,
     fragmentShader: iridescentFragmentShader,
-    uniforms: THREE.UniformsUtils.merge([
-      {
-        color1: { value: new THREE.Color(1.0, 0.0, 0.0) },
-        color2: { value: new THREE.Color(0.0, 0.0, 1.0) },
-      },
-      highlightUniforms,
-    ]),
+    uniforms: {
+      color1: { value: new THREE.Color(1.0, 0.0, 0.0) },
+      color2: { value: new THREE.Color(0.0, 0.0, 1.0) },
+    },
   });
 
   // Toon
   const toonMat = new THREE.ShaderMaterial({
     vertexShader: vertexShaderSource,
     fragmentShader: toonFragmentShader,
-    uniforms: THREE.UniformsUtils.merge([
-      {
-        lightPos: { value: new THREE.Vector3(0, 100, 100) },
-        lightColor: { value: new THREE.Color(1, 1, 1) },
-        lightIntensity: { value: 1.0 },
-        numBands: { value: 4 },
-        bandColors: {
-          value: [
-            new THREE.Color(0.1, 0.1, 0.1),
-            new THREE.Color(0.3, 0.3, 0.3),
-            new THREE.Color(0.6, 0.6, 0.6),
-            new THREE.Color(0.9, 0.9, 0.9),
-            new THREE.Color(1.0, 1.0, 1.0),
-            new THREE.Color(1.0, 1.0, 1.0),
-            new THREE.Color(1.0, 1.0, 1.0),
-            new THREE.Color(1.0, 1.0, 1.0),
-            new THREE.Color(1.0, 1.0, 1.0),
-            new THREE.Color(1.0, 1.0, 1.0),
-          ],
-        },
+    uniforms: {
+      lightPos: { value: new THREE.Vector3(0, 100, 100) },
+      lightColor: { value: new THREE.Color(1, 1, 1) },
+      lightIntensity: { value: 1.0 },
+      numBands: { value: 4 },
+      bandColors: {
+        value: [
+          new THREE.Color(0.1, 0.1, 0.1),
+          new THREE.Color(0.3, 0.3, 0.3),
+          new THREE.Color(0.6, 0.6, 0.6),
+          new THREE.Color(0.9, 0.9, 0.9),
+          new THREE.Color(1.0, 1.0, 1.0),
+          new THREE.Color(1.0, 1.0, 1.0),
+          new THREE.Color(1.0, 1.0, 1.0),
+          new THREE.Color(1.0, 1.0, 1.0),
+          new THREE.Color(1.0, 1.0, 1.0),
+          new THREE.Color(1.0, 1.0, 1.0),
+        ],
       },
-      highlightUniforms,
-    ]),
+    },
   });
 
   // ShaderToy
   const shaderToyMat = new THREE.ShaderMaterial({
     vertexShader: vertexShaderSource,
     fragmentShader: shaderToyFragmentShader,
-    uniforms: THREE.UniformsUtils.merge([
-      {
-        iTime: { value: 0 },
-        speed: { value: 1.0 },
-      },
-      highlightUniforms,
-    ]),
+    uniforms: {
+      iTime: { value: 0 },
+      speed: { value: 1.0 },
+    },
   });
 
   // Flat
   const flatMat = new THREE.ShaderMaterial({
     vertexShader: flatVertexShader,
     fragmentShader: flatFragmentShader,
-    uniforms: THREE.UniformsUtils.merge([{}, highlightUniforms]),
+    uniforms: {},
   });
 
   materials['Phong Shader'] = phongMat;
@@ -1243,11 +2613,9 @@ function initShaderMaterials(): void {
 /** Update active material based on GUI selection */
 function changeMaterial(): void {
   activeMaterial = materials[config.chosenShader];
-  blocks.forEach((block) => {
-    const oldMat = block.material as THREE.ShaderMaterial;
-    const newMat = activeMaterial.clone();
-    block.material = newMat;
-    oldMat.dispose();
+  lanes.forEach((lane) => {
+    lane.mesh.material = activeMaterial;
+    lane.auxMesh.material = activeMaterial;
   });
 }
 
@@ -1262,22 +2630,10 @@ function initControlPanel(): void {
   if (container) container.appendChild(gui.domElement);
 
   // Sorting algorithm
-  gui
-    .add(config, 'chosenAlgo', [
-      'Selection Sort',
-      'Insertion Sort',
-      'Quick Sort',
-      'Merge Sort',
-      'Heap Sort',
-      'Radix Sort',
-      'Shell Sort',
-      'Bubble Sort',
-      'Cocktail Shaker Sort',
-      'Gnome Sort',
-    ])
-    .onChange(() => {
-      updateComplexities();
-    });
+  gui.add(config, 'chosenAlgo', Object.keys(sortAlgorithms)).onChange(() => {
+    updateComplexities();
+    changeLineup();
+  });
 
   // Shader
   gui.add(config, 'chosenShader', Object.keys(materials)).onChange(() => {
@@ -1296,32 +2652,213 @@ function initControlPanel(): void {
   // Speed
   gui.add(config, 'speed', 0.1, 100);
 
-  // Array generation
+  // Array generation; imported data can be any size, down to a single value
+  gui
+    .add(config, 'arraySize', 1, MAX_ARRAY_SIZE, 1)
+    .name('Array Size')
+    .listen()
+    .onFinishChange(() => config.randomizeDataset());
+  gui
+    .add(config, 'distribution', Object.keys(distributions))
+    .name('Distribution')
+    .onChange(() => config.randomizeDataset());
   gui.add(config, 'randomizeDataset').name('Generate Array');
+  gui
+    .add(config, 'showIdentity')
+    .name('Show Identity')
+    .onChange(() => lanes.forEach(resetLaneTints));
+
+  // Custom data: pasted values or a CSV/JSON file
+  const customFolder = gui.addFolder('Custom Data').close();
+  customFolder.add(config, 'customData').name('Values (a, b, ...)');
+  customFolder.add(config, 'loadCustomData').name('Load Values');
+  customFolder.add(config, 'loadDataFile').name('Load CSV/JSON File');
+
+  // Quick Sort variants
+  const quickFolder = gui.addFolder('Quick Sort').close();
+  quickFolder.add(config, 'quickPivot', pivotChoices).name('Pivot');
+  quickFolder.add(config, 'quickPartition', partitionSchemes).name('Partition');
+  quickFolder.onChange(changeOptions);
+
+  // Merge Sort variant
+  const mergeFolder = gui.addFolder('Merge Sort').close();
+  mergeFolder.add(config, 'mergeVariant', mergeVariants).name('Variant');
+  mergeFolder.onChange(changeOptions);
+
+  // Shell Sort gap sequence
+  const shellFolder = gui.addFolder('Shell Sort').close();
+  shellFolder.add(config, 'shellGaps', gapSequences).name('Gaps');
+  shellFolder.onChange(changeOptions);
+
+  // Radix Sort base and digit order
+  const radixFolder = gui.addFolder('Radix Sort').close();
+  radixFolder.add(config, 'radixBase', radixBases).name('Base');
+  radixFolder.add(config, 'radixMode', radixModes).name('Digit Order');
+  radixFolder.onChange(changeOptions);
+
+  // Race: up to four algorithms sorting the same input side by side
+  const raceFolder = gui.addFolder('Race Mode').close();
+  raceFolder.add(config, 'raceMode').name('Race').onChange(changeLineup);
+  const racerOptions = ['None', ...Object.keys(sortAlgorithms)];
+  (['racer1', 'racer2', 'racer3', 'racer4'] as const).forEach((key, idx) => {
+    raceFolder
+      .add(config, key, racerOptions)
+      .name(`Racer ${idx + 1}`)
+      .onChange(changeLineup);
+  });
+
+  // Sound: volume, a waveform per kind of operation, pitches and voices
+  const soundFolder = gui.addFolder('Sound').close();
+  soundFolder.add(config, 'volume', 0, 1, 0.01).name('Volume');
+  soundFolder.add(config, 'muted').name('Mute');
+  soundFolder.add(config, 'compareWave', waveforms).name('Compare Sound');
+  soundFolder.add(config, 'writeWave', waveforms).name('Write Sound');
+  soundFolder.add(config, 'scale', Object.keys(scales)).name('Scale');
+  soundFolder.add(config, 'lowPitch', 50, 4000, 1).name('Lowest Pitch (Hz)');
+  soundFolder.add(config, 'highPitch', 50, 4000, 1).name('Highest Pitch (Hz)');
+  soundFolder.add(config, 'maxVoices', 1, 64, 1).name('Max Voices');
+  soundFolder
+    .add(config, 'exportTempo', 1, 1000, 1)
+    .name('Export Tempo (ops/s)');
+  soundFolder.add(config, 'exportAudio').name('Export Audio');
 
   // Start/Stop
   gui.add(config, 'beginSort').name('Begin Sorting');
   gui.add(config, 'haltSort').name('Stop Sorting');
+  gui.add(config, 'pauseSort').name('Pause');
+  gui.add(config, 'resumeSort').name('Resume');
+  gui.add(config, 'resetSort').name('Reset Array');
+
+  // Step through the recorded trace
+  gui.add(config, 'stepBack').name('Step Back');
+  gui.add(config, 'stepForward').name('Step Forward');
+  timelineController = gui
+    .add(config, 'timeline', 0, 1, 1)
+    .name('Timeline')
+    .onChange((position: number) => seekSorter(position));
 
   // Info: complexities + stats
   gui.add(config, 'timeComplexityAverage').name('Time Complexity').listen();
+  gui
+    .add(config, 'measuredComplexity')
+    .name('Measured Growth')
+    .listen()
+    .disable();
+  gui.add(config, 'analyzeComplexity').name('Analyze Complexity');
   gui.add(config, 'spaceComplexity').name('Space Complexity').listen();
+  gui.add(config, 'peakMemory').name('Peak Extra Memory').listen().disable();
   gui.add(config, 'arrayAccesses').name('Array Accesses').listen();
+  gui.add(config, 'reads').name('Reads').listen().disable();
+  gui.add(config, 'writes').name('Writes').listen().disable();
+  gui.add(config, 'swaps').name('Swaps').listen().disable();
   gui.add(config, 'comparisons').name('Comparisons').listen();
+  gui
+    .add(config, 'comparisonBound')
+    .name('Comparison Bound (log₂ n!)')
+    .listen()
+    .disable();
+  gui.add(config, 'depth').name('Parallel Steps').listen();
+  gui
+    .add(config, 'recursionDepth')
+    .name('Recursion Depth (now / max)')
+    .listen()
+    .disable();
   gui.add(config, 'elapsedTime').name('Elapsed Time').listen();
+  gui.add(config, 'phase').name('Phase').listen().disable();
+  gui.add(config, 'gap').name('Gap').listen().disable();
+  gui.add(config, 'statusMessage').name('Status').listen().disable();
+}
+
+/** Follow a change of algorithm or race line-up, unless a run is playing */
+function changeLineup(): void {
+  if (!isSorting) {
+    syncLanes();
+    clearRun();
+  }
+  sortBlocked();
+}
+
+/** Follow a change to an algorithm's options */
+function changeOptions(): void {
+  updateComplexities();
+  changeLineup();
 }
 
 /** Update displayed complexities and pseudo-code */
 function updateComplexities(): void {
-  const c = complexityMap[config.chosenAlgo];
+  const c = complexity(config.chosenAlgo);
   config.timeComplexityAverage = c.average;
   config.spaceComplexity = c.space;
+  closeAnalysis();
 
-  const pseudo = pseudoMap[config.chosenAlgo];
   const infoBox = document.getElementById('info-box');
   if (infoBox) {
-    infoBox.textContent = 'Pseudo Code\n\n' + pseudo;
+    // One element per line, so the running line can be highlighted
+    infoBox.textContent = 'Pseudo Code\n\n';
+    pseudoLines = pseudoCode(config.chosenAlgo)
+      .split('\n')
+      .map((text) => {
+        const line = document.createElement('div');
+        line.className = 'pseudo-line';
+        line.textContent = text || ' ';
+        infoBox.appendChild(line);
+        return line;
+      });
+    activePseudoLine = null;
+    updatePseudoHighlight();
+  }
+}
+
+/** Complexities of an algorithm, matching the options chosen for it */
+function complexity(name: string): { average: string; space: string } {
+  if (name === 'Merge Sort') return mergeComplexity[config.mergeVariant];
+  if (name === 'Shell Sort') {
+    return { ...complexityMap[name], average: gapComplexity[config.shellGaps] };
+  }
+  return complexityMap[name];
+}
+
+/** Pseudo-code for an algorithm, matching the options chosen for it */
+function pseudoCode(name: string): string {
+  if (name === 'Quick Sort') {
+    return (
+      'quickSort(A, low, high):\n  if low < high:\n' +
+      `    p = ${pivotPseudo[config.quickPivot]}\n` +
+      partitionPseudo[config.quickPartition]
+    );
+  }
+  if (name === 'Merge Sort') return mergePseudo[config.mergeVariant];
+  if (name === 'Shell Sort') {
+    return (
+      'shellSort(A):\n' +
+      `  for gap in ${gapPseudo[config.shellGaps]}:\n` +
+      '    for i = gap..n-1:\n      temp = A[i]\n      j = i\n      while j >= gap and A[j-gap] > temp:\n        A[j] = A[j-gap]\n        j -= gap\n      A[j] = temp'
+    );
   }
+  if (name === 'Radix Sort') {
+    const b = config.radixBase;
+    const distribute =
+      `\n\ndistribute(A, low, high, place):  // base ${b}\n` +
+      `  count keys of each digit (key - min) / place % ${b}\n` +
+      '  move each A[i] into the bucket for its digit\n' +
+      '  copy the buckets back to A[low..high] in order';
+    if (config.radixMode === 'MSD') {
+      return (
+        'radixSort(A):\n  msd(A, 0, n-1, highest place)\n\n' +
+        'msd(A, low, high, place):\n  if low >= high or place < 1: return\n' +
+        '  distribute(A, low, high, place)\n' +
+        `  for each bucket [l..h]: msd(A, l, h, place / ${b})` +
+        distribute
+      );
+    }
+    return (
+      'radixSort(A):\n  min = min(A)\n  place = 1\n' +
+      '  while place <= max(A) - min:\n' +
+      `    distribute(A, 0, n-1, place)\n    place *= ${b}` +
+      distribute
+    );
+  }
+  return pseudoMap[name];
 }
 
 /** Handle window resizing */
@@ -1345,57 +2882,45 @@ function animationLoop(): void {
 }
 
 /** Start the sorting process according to the chosen algorithm */
-function startSorter(): void {
+async function startSorter(): Promise<void> {
+  await settlePlayback();
   if (isSorting) return;
-  interruptRequested = false;
-  arrayAccessCount = 0;
-  comparisonCount = 0;
-  startTimestamp = performance.now();
-  finishTimestamp = null;
-  config.arrayAccesses = arrayAccessCount;
-  config.comparisons = comparisonCount;
-  config.elapsedTime = '0.0s';
-
-  switch (config.chosenAlgo) {
-    case 'Selection Sort':
-      doSelectionSort();
-      break;
-    case 'Insertion Sort':
-      doInsertionSort();
-      break;
-    case 'Quick Sort':
-      doQuickSort();
-      break;
-    case 'Merge Sort':
-      doMergeSort();
-      break;
-    case 'Heap Sort':
-      doHeapSort();
-      break;
-    case 'Radix Sort':
-      doRadixSort();
-      break;
-    case 'Shell Sort':
-      doShellSort();
-      break;
-    case 'Bubble Sort':
-      doBubbleSort();
-      break;
-    case 'Cocktail Shaker Sort':
-      doCocktailShakerSort();
-      break;
-    case 'Gnome Sort':
-      doGnomeSort();
-      break;
-  }
+  if (createRun()) playback = playRun();
 }
 
-/** Stop/interrupt current sorting */
-function stopSorter(): void {
+/** Suspend playback at the current operation so it can be resumed later */
+function pauseSorter(): void {
   if (!isSorting) return;
   interruptRequested = true;
-  finishTimestamp = performance.now();
+}
+
+/** Continue a paused (or stepped through) run exactly where it left off */
+async function resumeSorter(): Promise<void> {
+  await settlePlayback();
+  if (isSorting || !hasRun() || isRunComplete()) return;
+  playback = playRun();
+}
+
+/** Abandon the current run, leaving the data and counters where they got to */
+function stopSorter(): void {
+  if (!hasRun()) return;
+  interruptRequested = true;
+  pauseClock();
   updateStatistics();
+  lanes.forEach((lane) => {
+    lane.trace = null;
+    lane.verification = null;
+    resetLaneTints(lane);
+    renderHighlights(lane, []);
+  });
+  runId++;
+  updateTimeline();
+}
+
+/** Abandon any run and restore the dataset as it was before sorting */
+function resetSorter(): void {
+  interruptRequested = true;
+  loadDataset(originalDataset);
 }
 
 /** Main initialization */
@@ -1404,8 +2929,18 @@ function initialize(): void {
   initializeCameraControls();
   initShaderMaterials();
   initControlPanel();
-  randomizeData();
-  createBlocks();
+  initializeBlockPicking();
+
+  // Values can be passed in the URL, e.g. main.html?data=5,-2,3.5,0
+  const urlData = new URLSearchParams(window.location.search).get('data');
+  if (urlData) {
+    importDataset(urlData);
+  }
+  if (originalDataset.length === 0) {
+    const importMessage = config.statusMessage;
+    randomizeData();
+    config.statusMessage = importMessage;
+  }
   updateComplexities();
   window.addEventListener('resize', handleResize, false);
   animationLoop();
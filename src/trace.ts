@@ -0,0 +1,722 @@
+/**
+ * ==========================
+ * Sort operation traces
+ * ==========================
+ *
+ * Algorithms never touch the scene directly. They run against their own copy
+ * of the data and yield a stream of operations, which a trace records and
+ * replays onto the displayed values one step at a time (in either direction).
+ */
+
+/** A single primitive operation performed by a sorting algorithm */
+export type SortOp = (
+  | {
+      type: 'compare';
+      i: number;
+      j: number;
+      /** Which of i and j are auxiliary slots rather than positions in A */
+      aux?: 'i' | 'both';
+    }
+  | { type: 'swap'; i: number; j: number }
+  | {
+      type: 'write';
+      index: number;
+      value: number;
+      prev: number;
+      /** Original positions of the written and overwritten elements */
+      tag?: number;
+      prevTag?: number;
+    }
+  | { type: 'read'; index: number }
+  | {
+      type: 'stash';
+      slot: number;
+      value: number;
+      /** Null when the slot was empty */
+      prev: number | null;
+      /** Index of A the value was copied from, if any */
+      from: number | null;
+      tag?: number;
+      prevTag?: number;
+    }
+  | {
+      type: 'unstash';
+      index: number;
+      slot: number;
+      value: number;
+      prev: number;
+      tag?: number;
+      prevTag?: number;
+    }
+  | { type: 'release'; slot: number; prev: number; prevTag?: number }
+  | { type: 'buckets'; starts: number[] | null }
+  | { type: 'merging'; bounds: MergeBounds | null }
+  | { type: 'heap'; range: HeapRange | null }
+  | { type: 'layer'; pairs: [number, number][]; swapped: boolean[] }
+  | { type: 'pivot'; index: number | null }
+  | { type: 'mark'; index: number | null }
+  | { type: 'phase'; name: string | null }
+  | { type: 'gap'; size: number | null }
+  | { type: 'enter'; low: number; high: number }
+  | { type: 'exit'; low: number; high: number }
+) & {
+  /** Line of the algorithm's pseudo-code (from 1) the operation carries out */
+  line?: number;
+  /** Index variables (i, j, ...) the algorithm has just set */
+  pointers?: Vars;
+  /** Other variables (gap, heap size, ...) the algorithm has just set */
+  variables?: Vars;
+};
+
+/** Named variables an algorithm exposes while it runs, null once unset */
+export type Vars = Record<string, number | null>;
+
+export type SortGenerator<T = void> = Generator<SortOp, T, void>;
+
+/** A sorting algorithm sorts `a` in place, yielding every operation it makes */
+export type SortAlgorithm = (a: number[]) => SortGenerator;
+
+/** Runs A[left..mid] and A[mid+1..right] being merged, as [left, mid, right] */
+export type MergeBounds = [number, number, number];
+
+/**
+ * A heap being sorted in A[low..high]: the heap itself is the first `size`
+ * elements, rooted at A[low], and the sorted elements follow it
+ */
+export interface HeapRange {
+  low: number;
+  high: number;
+  size: number;
+}
+
+/** Indexes the algorithm is currently pointing at (pivot, current min, ...) */
+export interface Markers {
+  pivot: number | null;
+  mark: number | null;
+  /** Named stage of a multi-phase algorithm, e.g. a heap sort fallback */
+  phase: string | null;
+  /** Stride of the current Shell Sort pass */
+  gap: number | null;
+  /** First auxiliary slot of each bucket the algorithm is filling */
+  buckets: number[] | null;
+  merging: MergeBounds | null;
+  heap: HeapRange | null;
+  /** Latest value of every variable the algorithm has exposed */
+  pointers: Vars;
+  variables: Vars;
+}
+
+interface TraceEntry {
+  op: SortOp;
+  /** Markers as they were before `op` was applied, used when undoing it */
+  markers: Markers;
+  /** Peaks before `op`, likewise restored when undoing it */
+  peakAuxiliary: number;
+  peakRecursion: number;
+}
+
+/** Running totals of the work an algorithm has done */
+export interface OpCounts {
+  comparisons: number;
+  /** Every element read or written, so a swap counts as four */
+  arrayAccesses: number;
+  /** Elements read and written, in the array or auxiliary memory */
+  reads: number;
+  writes: number;
+  swaps: number;
+  /** Sorting network layers applied, each one a single parallel step */
+  depth: number;
+  /** Auxiliary slots currently holding a value, and the most ever held */
+  auxiliary: number;
+  peakAuxiliary: number;
+  /** Sub-ranges entered and not yet left, and the most ever nested */
+  recursion: number;
+  peakRecursion: number;
+}
+
+/** Tag of an element whose original position is not known */
+export const UNKNOWN_TAG = -1;
+
+export interface Trace extends OpCounts {
+  /** Displayed values, updated in place as the trace is played */
+  values: number[];
+  /** Original position of each displayed value, moved along with it */
+  tags: number[];
+  /** Auxiliary memory (buckets, buffers) as it is played, null when empty */
+  aux: (number | null)[];
+  auxTags: number[];
+  /** Values as they were when the trace was created */
+  input: number[];
+  /** Bounds of every sub-range entered and not yet left, innermost last */
+  frames: [number, number][];
+  /** The most recent entries, at most HISTORY_LIMIT of them */
+  entries: TraceEntry[];
+  /** Entries forgotten from the start to bound memory, so not undoable */
+  dropped: number;
+  /** Number of entries currently applied to `values`, counting dropped ones */
+  cursor: number;
+  source: SortGenerator;
+  exhausted: boolean;
+  markers: Markers;
+}
+
+/** Record a comparison between A[i] and A[j] */
+export function compare(i: number, j: number): SortOp {
+  return { type: 'compare', i, j };
+}
+
+/** Record a comparison between auxiliary slots i and j */
+export function compareAux(i: number, j: number): SortOp {
+  return { type: 'compare', i, j, aux: 'both' };
+}
+
+/** Record a comparison between auxiliary slot `slot` and A[index] */
+export function compareWithAux(slot: number, index: number): SortOp {
+  return { type: 'compare', i: slot, j: index, aux: 'i' };
+}
+
+/** Swap A[i] and A[j] in place and record it */
+export function swap(a: number[], i: number, j: number): SortOp {
+  const temp = a[i];
+  a[i] = a[j];
+  a[j] = temp;
+  return { type: 'swap', i, j };
+}
+
+/** Write a value into A[index] and record it along with the old value */
+export function write(a: number[], index: number, value: number): SortOp {
+  const prev = a[index];
+  a[index] = value;
+  return { type: 'write', index, value, prev };
+}
+
+/**
+ * Compare-exchange every pair at once, as one layer of a sorting network.
+ * Each pair [i, j] leaves the smaller value at A[i]; pairs must not overlap.
+ */
+export function layer(a: number[], pairs: [number, number][]): SortOp {
+  const swapped = pairs.map(([i, j]) => {
+    if (!(a[j] < a[i])) return false;
+    swap(a, i, j);
+    return true;
+  });
+  return { type: 'layer', pairs, swapped };
+}
+
+/**
+ * Copy a value into slot of the algorithm's auxiliary memory `aux`, from
+ * A[from] if it was moved out of the array (null if it was computed)
+ */
+export function stash(
+  aux: number[],
+  slot: number,
+  value: number,
+  from: number | null = null,
+): SortOp {
+  const prev = aux[slot] ?? null;
+  aux[slot] = value;
+  return { type: 'stash', slot, value, prev, from };
+}
+
+/** Move the value in slot of `aux` back into A[index], emptying the slot */
+export function unstash(
+  a: number[],
+  index: number,
+  aux: number[],
+  slot: number,
+): SortOp {
+  const prev = a[index];
+  const value = aux[slot];
+  a[index] = value;
+  delete aux[slot];
+  return { type: 'unstash', index, slot, value, prev };
+}
+
+/** Empty slot of `aux`, discarding what it held (e.g. a spent counter) */
+export function release(aux: number[], slot: number): SortOp {
+  const prev = aux[slot];
+  delete aux[slot];
+  return { type: 'release', slot, prev };
+}
+
+/** Show (or clear, with null) the first auxiliary slot of every bucket */
+export function buckets(starts: number[] | null): SortOp {
+  return { type: 'buckets', starts };
+}
+
+/** Show (or clear, with null) the two runs about to be merged */
+export function merging(bounds: MergeBounds | null): SortOp {
+  return { type: 'merging', bounds };
+}
+
+/** Show (or clear, with null) the heap and the sorted elements after it */
+export function heap(range: HeapRange | null): SortOp {
+  return { type: 'heap', range };
+}
+
+/** Record a read of A[index] into a local variable */
+export function read(index: number): SortOp {
+  return { type: 'read', index };
+}
+
+/** Select (or clear, with null) the pivot index */
+export function pivot(index: number | null): SortOp {
+  return { type: 'pivot', index };
+}
+
+/** Mark (or clear, with null) an index of interest, e.g. the current minimum */
+export function mark(index: number | null): SortOp {
+  return { type: 'mark', index };
+}
+
+/** Announce (or clear, with null) the phase the algorithm has moved into */
+export function phase(name: string | null): SortOp {
+  return { type: 'phase', name };
+}
+
+/** Announce (or clear, with null) the gap of an h-sorting pass */
+export function gap(size: number | null): SortOp {
+  return { type: 'gap', size };
+}
+
+/** Record entry into the sub-range A[low..high] */
+export function enter(low: number, high: number): SortOp {
+  return { type: 'enter', low, high };
+}
+
+/** Record leaving the sub-range A[low..high] */
+export function exit(low: number, high: number): SortOp {
+  return { type: 'exit', low, high };
+}
+
+/**
+ * Attribute an operation to a line of the algorithm's pseudo-code, along with
+ * any index variables (drawn over their blocks) and other variables it sets
+ */
+export function at(
+  line: number,
+  op: SortOp,
+  pointers?: Vars,
+  variables?: Vars,
+): SortOp {
+  op.line = line;
+  if (pointers) op.pointers = pointers;
+  if (variables) op.variables = variables;
+  return op;
+}
+
+/**
+ * Run a helper, attributing everything it does to one line of the caller's
+ * pseudo-code (e.g. a shared insertion sort called from a hybrid sort)
+ */
+export function* during<T>(
+  line: number,
+  steps: SortGenerator<T>,
+): SortGenerator<T> {
+  while (true) {
+    const next = steps.next();
+    if (next.done) return next.value;
+    yield { ...next.value, line };
+  }
+}
+
+/**
+ * An element that remembers where it started. Algorithms only compare and do
+ * arithmetic on elements, which go through valueOf, so they sort tagged
+ * elements exactly as they would bare numbers while the tag rides along.
+ * (This is why algorithms must never test elements with === or typeof.)
+ */
+interface Tagged {
+  value: number;
+  tag: number;
+  valueOf(): number;
+  toString(): string;
+}
+
+function tagged(value: number, tag: number): Tagged {
+  return {
+    value,
+    tag,
+    valueOf: () => value,
+    toString: () => String(value),
+  };
+}
+
+/** Split an element back into its value and tag */
+function untag(element: number): { value: number; tag: number } {
+  const item = element as number | Tagged;
+  // Values computed by the algorithm rather than moved have no identity
+  return typeof item === 'number' ? { value: item, tag: UNKNOWN_TAG } : item;
+}
+
+/** Replace the tagged elements in an operation with bare values and tags */
+function untagOp(op: SortOp): SortOp {
+  switch (op.type) {
+    case 'write':
+    case 'unstash': {
+      const value = untag(op.value);
+      const prev = untag(op.prev);
+      return {
+        ...op,
+        value: value.value,
+        prev: prev.value,
+        tag: value.tag,
+        prevTag: prev.tag,
+      };
+    }
+    case 'stash': {
+      const value = untag(op.value);
+      const prev = op.prev === null ? null : untag(op.prev);
+      return {
+        ...op,
+        value: value.value,
+        prev: prev && prev.value,
+        tag: value.tag,
+        prevTag: prev ? prev.tag : UNKNOWN_TAG,
+      };
+    }
+    case 'release': {
+      const prev = untag(op.prev);
+      return { ...op, prev: prev.value, prevTag: prev.tag };
+    }
+    default:
+      return op;
+  }
+}
+
+/**
+ * Start recording `algorithm` over `values`. The algorithm sorts a private
+ * tagged copy, so `values` only changes as entries are stepped through.
+ */
+export function createTrace(algorithm: SortAlgorithm, values: number[]): Trace {
+  const elements = values.map(tagged) as unknown as number[];
+  return {
+    values,
+    tags: values.map((_, idx) => idx),
+    aux: [],
+    auxTags: [],
+    input: values.slice(),
+    frames: [],
+    entries: [],
+    dropped: 0,
+    cursor: 0,
+    source: algorithm(elements),
+    exhausted: false,
+    markers: {
+      pivot: null,
+      mark: null,
+      phase: null,
+      gap: null,
+      buckets: null,
+      merging: null,
+      heap: null,
+      pointers: {},
+      variables: {},
+    },
+    ...emptyCounts(),
+  };
+}
+
+/** Counters for an algorithm that has not done anything yet */
+export function emptyCounts(): OpCounts {
+  return {
+    comparisons: 0,
+    arrayAccesses: 0,
+    reads: 0,
+    writes: 0,
+    swaps: 0,
+    depth: 0,
+    auxiliary: 0,
+    peakAuxiliary: 0,
+    recursion: 0,
+    peakRecursion: 0,
+  };
+}
+
+/**
+ * Run `algorithm` to completion over `values` (sorting them in place) without
+ * recording anything, and return how much work it did
+ */
+export function measureSort(
+  algorithm: SortAlgorithm,
+  values: number[],
+): OpCounts {
+  const run = measureSortInSlices(algorithm, values, Infinity);
+  for (;;) {
+    const slice = run.next();
+    if (slice.done) return slice.value;
+  }
+}
+
+/**
+ * measureSort a slice at a time, yielding after every `chunk` operations so
+ * a caller can give way during a long run
+ */
+export function* measureSortInSlices(
+  algorithm: SortAlgorithm,
+  values: number[],
+  chunk: number,
+): Generator<undefined, OpCounts> {
+  const counts = emptyCounts();
+  let sliced = 0;
+  for (const op of algorithm(values)) {
+    countOp(counts, op, 1);
+    if (++sliced >= chunk) {
+      sliced = 0;
+      yield;
+    }
+  }
+  return counts;
+}
+
+/** Entries kept for stepping back, and how many are forgotten at a time */
+const HISTORY_LIMIT = 200000;
+const HISTORY_CHUNK = 20000;
+
+/** Operations recorded so far, including any forgotten since */
+export function traceLength(trace: Trace): number {
+  return trace.dropped + trace.entries.length;
+}
+
+/** The operation applied last, or null at the start */
+export function lastOp(trace: Trace): SortOp | null {
+  return trace.entries[trace.cursor - trace.dropped - 1]?.op ?? null;
+}
+
+/** True once the algorithm has finished and every entry has been applied */
+export function isTraceComplete(trace: Trace): boolean {
+  return trace.exhausted && trace.cursor === traceLength(trace);
+}
+
+/**
+ * Apply the next operation, replaying a recorded entry if we have stepped
+ * back, otherwise pulling a new one from the algorithm. Returns null at the end.
+ */
+export function stepForward(trace: Trace): SortOp | null {
+  if (trace.cursor === traceLength(trace)) {
+    if (trace.exhausted) return null;
+    const next = trace.source.next();
+    if (next.done) {
+      trace.exhausted = true;
+      return null;
+    }
+    trace.entries.push({
+      op: untagOp(next.value),
+      markers: trace.markers,
+      peakAuxiliary: trace.peakAuxiliary,
+      peakRecursion: trace.peakRecursion,
+    });
+    // Long runs forget their oldest entries rather than grow without bound
+    if (trace.entries.length >= HISTORY_LIMIT + HISTORY_CHUNK) {
+      trace.entries.splice(0, HISTORY_CHUNK);
+      trace.dropped += HISTORY_CHUNK;
+    }
+  }
+
+  const { op } = trace.entries[trace.cursor++ - trace.dropped];
+  applyOp(trace, op, 1);
+  return op;
+}
+
+/**
+ * Undo the most recently applied operation. Returns null at the start, or
+ * at the oldest entry still remembered.
+ */
+export function stepBack(trace: Trace): SortOp | null {
+  if (trace.cursor === trace.dropped) return null;
+  const entry = trace.entries[--trace.cursor - trace.dropped];
+  applyOp(trace, entry.op, -1);
+  trace.markers = entry.markers;
+  trace.peakAuxiliary = entry.peakAuxiliary;
+  trace.peakRecursion = entry.peakRecursion;
+  return entry.op;
+}
+
+/** Entries searched back for an operation that names its pseudo-code line */
+const LINE_LOOKBACK = 64;
+
+/**
+ * Pseudo-code line of the most recently applied operation, skipping
+ * bookkeeping (ranges, phases) that does not name one
+ */
+export function currentLine(trace: Trace): number | null {
+  const stop = Math.max(trace.dropped, trace.cursor - LINE_LOOKBACK);
+  for (let k = trace.cursor - 1; k >= stop; k--) {
+    const { line } = trace.entries[k - trace.dropped].op;
+    if (line !== undefined) return line;
+  }
+  return null;
+}
+
+/** Move the cursor to `position`, replaying or undoing entries on the way */
+export function seekTrace(trace: Trace, position: number): void {
+  while (trace.cursor > position && stepBack(trace)) {}
+  while (trace.cursor < position && stepForward(trace)) {}
+}
+
+/** Add (direction 1) or remove (direction -1) an operation from the counters */
+function countOp(counts: OpCounts, op: SortOp, direction: 1 | -1): void {
+  let reads = 0;
+  let writes = 0;
+  switch (op.type) {
+    case 'compare':
+      counts.comparisons += direction;
+      reads = 2;
+      break;
+    case 'swap':
+      counts.swaps += direction;
+      reads = 2;
+      writes = 2;
+      break;
+    case 'write':
+      writes = 1;
+      break;
+    case 'read':
+      reads = 1;
+      break;
+    case 'stash':
+      reads = op.from === null ? 0 : 1;
+      writes = 1;
+      if (op.prev === null) counts.auxiliary += direction;
+      break;
+    case 'unstash':
+      reads = 1;
+      writes = 1;
+      counts.auxiliary -= direction;
+      break;
+    case 'release':
+      counts.auxiliary -= direction;
+      break;
+    case 'enter':
+      counts.recursion += direction;
+      break;
+    case 'exit':
+      counts.recursion -= direction;
+      break;
+    case 'layer': {
+      const swaps = op.swapped.filter(Boolean).length;
+      counts.comparisons += op.pairs.length * direction;
+      counts.swaps += swaps * direction;
+      counts.depth += direction;
+      reads = 2 * op.pairs.length + 2 * swaps;
+      writes = 2 * swaps;
+      break;
+    }
+  }
+  counts.reads += reads * direction;
+  counts.writes += writes * direction;
+  counts.arrayAccesses += (reads + writes) * direction;
+
+  // Undoing restores the peaks saved with the entry instead
+  if (direction === 1) {
+    counts.peakAuxiliary = Math.max(counts.peakAuxiliary, counts.auxiliary);
+    counts.peakRecursion = Math.max(counts.peakRecursion, counts.recursion);
+  }
+}
+
+/** Apply (direction 1) or undo (direction -1) a single operation */
+function applyOp(trace: Trace, op: SortOp, direction: 1 | -1): void {
+  const { values, tags, aux, auxTags } = trace;
+  countOp(trace, op, direction);
+  if (direction === 1 && (op.pointers || op.variables)) {
+    const { pointers, variables } = trace.markers;
+    trace.markers = {
+      ...trace.markers,
+      pointers: op.pointers ? { ...pointers, ...op.pointers } : pointers,
+      variables: op.variables ? { ...variables, ...op.variables } : variables,
+    };
+  }
+  switch (op.type) {
+    case 'compare':
+    case 'read':
+      break;
+    case 'swap': {
+      const temp = values[op.i];
+      values[op.i] = values[op.j];
+      values[op.j] = temp;
+      const tempTag = tags[op.i];
+      tags[op.i] = tags[op.j];
+      tags[op.j] = tempTag;
+      break;
+    }
+    case 'layer':
+      // Pairs never overlap, so undoing is the same set of swaps
+      op.pairs.forEach(([i, j], idx) => {
+        if (!op.swapped[idx]) return;
+        [values[i], values[j]] = [values[j], values[i]];
+        [tags[i], tags[j]] = [tags[j], tags[i]];
+      });
+      break;
+    case 'write':
+      values[op.index] = direction === 1 ? op.value : op.prev;
+      tags[op.index] = (direction === 1 ? op.tag : op.prevTag) ?? UNKNOWN_TAG;
+      break;
+    case 'stash':
+      aux[op.slot] = direction === 1 ? op.value : op.prev;
+      auxTags[op.slot] = (direction === 1 ? op.tag : op.prevTag) ?? UNKNOWN_TAG;
+      break;
+    case 'unstash':
+      if (direction === 1) {
+        values[op.index] = op.value;
+        tags[op.index] = op.tag ?? UNKNOWN_TAG;
+        aux[op.slot] = null;
+      } else {
+        values[op.index] = op.prev;
+        tags[op.index] = op.prevTag ?? UNKNOWN_TAG;
+        aux[op.slot] = op.value;
+        auxTags[op.slot] = op.tag ?? UNKNOWN_TAG;
+      }
+      break;
+    case 'release':
+      aux[op.slot] = direction === 1 ? null : op.prev;
+      auxTags[op.slot] =
+        direction === 1 ? UNKNOWN_TAG : (op.prevTag ?? UNKNOWN_TAG);
+      break;
+    case 'pivot':
+    case 'mark':
+      // Undoing restores the markers saved with the entry instead
+      if (direction === 1) {
+        trace.markers = { ...trace.markers, [op.type]: op.index };
+      }
+      break;
+    case 'phase':
+      if (direction === 1) {
+        trace.markers = { ...trace.markers, phase: op.name };
+      }
+      break;
+    case 'gap':
+      if (direction === 1) {
+        trace.markers = { ...trace.markers, gap: op.size };
+      }
+      break;
+    case 'buckets':
+      if (direction === 1) {
+        trace.markers = { ...trace.markers, buckets: op.starts };
+      }
+      break;
+    case 'merging':
+      if (direction === 1) {
+        trace.markers = { ...trace.markers, merging: op.bounds };
+      }
+      break;
+    case 'heap':
+      if (direction === 1) {
+        trace.markers = { ...trace.markers, heap: op.range };
+      }
+      break;
+    case 'enter':
+      if (direction === 1) {
+        trace.frames.push([op.low, op.high]);
+      } else {
+        trace.frames.pop();
+      }
+      break;
+    case 'exit':
+      if (direction === 1) {
+        trace.frames.pop();
+      } else {
+        trace.frames.push([op.low, op.high]);
+      }
+      break;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * ====================
+ * Sort Verification
+ * ====================
+ *
+ * Checks a finished run rather than trusting it: the output must be in order,
+ * hold exactly the input's values, and (when keys repeat) we report whether
+ * equal keys kept their original order.
+ */
+import { UNKNOWN_TAG, type Trace } from './trace';
+
+export interface Verification {
+  /** First index i with A[i] > A[i + 1], or null if the output is in order */
+  inversion: number | null;
+  /** Whether the output holds exactly the input's values */
+  isPermutation: boolean;
+  /** Null when no keys repeat, or when the algorithm lost track of elements */
+  isStable: boolean | null;
+  /** First adjacent pair of equal keys whose original order was reversed */
+  unstablePair: [number, number] | null;
+}
+
+/** Verify an output against its input, given each element's original position */
+export function verifySort(
+  input: number[],
+  output: number[],
+  tags: number[],
+): Verification {
+  let inversion: number | null = null;
+  for (let i = 0; i + 1 < output.length; i++) {
+    if (output[i] > output[i + 1]) {
+      inversion = i;
+      break;
+    }
+  }
+
+  const expected = input.slice().sort((x, y) => x - y);
+  const actual = output.slice().sort((x, y) => x - y);
+  const isPermutation =
+    expected.length === actual.length &&
+    expected.every((value, idx) => value === actual[idx]);
+
+  let isStable: boolean | null = null;
+  let unstablePair: [number, number] | null = null;
+  if (inversion === null && isPermutation) {
+    for (let i = 0; i + 1 < output.length; i++) {
+      if (output[i] !== output[i + 1]) continue;
+      if (tags[i] === UNKNOWN_TAG || tags[i + 1] === UNKNOWN_TAG) {
+        isStable = null;
+        break;
+      }
+      if (tags[i] > tags[i + 1]) {
+        isStable = false;
+        unstablePair = [i, i + 1];
+        break;
+      }
+      isStable = true;
+    }
+  }
+
+  return { inversion, isPermutation, isStable, unstablePair };
+}
+
+/** Verify a trace that has been played to the end */
+export function verifyTrace(trace: Trace): Verification {
+  return verifySort(trace.input, trace.values, trace.tags);
+}
+
+/** True if the output is a correctly sorted copy of the input */
+export function isCorrect(verification: Verification): boolean {
+  return verification.isPermutation && verification.inversion === null;
+}
+
+/** One line summary, e.g. "Sorted correctly, Stable: yes" */
+export function describeVerification(verification: Verification): string {
+  const { inversion, isPermutation, isStable, unstablePair } = verification;
+  if (!isPermutation) {
+    return 'Not sorted: the output is not a permutation of the input';
+  }
+  if (inversion !== null) {
+    return `Not sorted: A[${inversion}] > A[${inversion + 1}]`;
+  }
+  if (isStable === true) return 'Sorted correctly, Stable: yes';
+  if (isStable === false) {
+    const [i, j] = unstablePair!;
+    return `Sorted correctly, Stable: no (equal keys at ${i} and ${j} swapped order)`;
+  }
+  return 'Sorted correctly';
+}